@@ -0,0 +1,176 @@
+#!/usr/bin/env node
+import { parseArgs } from 'node:util';
+import * as path from 'node:path';
+import * as fs from 'node:fs';
+import type { EzI18nConfig } from './types';
+import { checkTranslations, type CheckReport } from './utils/check';
+import { scanTranslationUsage, DEFAULT_SCAN_PATTERNS, type ScanReport } from './utils/scan';
+
+const DEFAULT_CONFIG_FILE = 'ez-i18n.config.json';
+
+const HELP = `\
+Usage: ez-i18n <command> [options]
+
+Commands:
+  check    Validate translations across locales (keys, placeholders, references)
+  scan     Find unused, undeclared and dynamic translation keys in source files
+
+Options:
+  --root <dir>              Project root (default: current directory)
+  --config <file>           JSON file with ez-i18n options (default: ${DEFAULT_CONFIG_FILE} if present)
+  --default-locale <code>   Default locale (overrides config)
+  --locales <a,b,c>         Comma-separated locales (overrides config)
+  --translations <dir>      Translations base directory (overrides config)
+  --json                    Print the report as JSON instead of a table
+  --report <file>           Also write the JSON report to a file
+  --src <glob>              Files to scan, repeatable (default: ${DEFAULT_SCAN_PATTERNS.join(', ')})
+  --strict                  scan: also fail when unused keys are found
+  -h, --help                Show this help
+`;
+
+const options = {
+  root: { type: 'string' },
+  config: { type: 'string' },
+  'default-locale': { type: 'string' },
+  locales: { type: 'string' },
+  translations: { type: 'string' },
+  json: { type: 'boolean', default: false },
+  report: { type: 'string' },
+  src: { type: 'string', multiple: true },
+  strict: { type: 'boolean', default: false },
+  help: { type: 'boolean', short: 'h', default: false },
+} as const;
+
+type CliValues = ReturnType<typeof parseArgs<{ options: typeof options; allowPositionals: true }>>['values'];
+
+/**
+ * Build the ez-i18n config from the config file and CLI flags (flags win)
+ */
+function loadConfig(values: CliValues, projectRoot: string): EzI18nConfig {
+  const configPath = values.config
+    ? path.resolve(projectRoot, values.config)
+    : path.join(projectRoot, DEFAULT_CONFIG_FILE);
+
+  let fileConfig: Partial<EzI18nConfig> = {};
+  if (values.config || fs.existsSync(configPath)) {
+    fileConfig = JSON.parse(fs.readFileSync(configPath, 'utf-8')) as Partial<EzI18nConfig>;
+  }
+
+  const defaultLocale = values['default-locale'] ?? fileConfig.defaultLocale;
+  if (!defaultLocale) {
+    throw new Error('defaultLocale is required (use --default-locale or a config file)');
+  }
+
+  return {
+    ...fileConfig,
+    defaultLocale,
+    locales: values.locales ? values.locales.split(',').map((l) => l.trim()).filter(Boolean) : fileConfig.locales,
+    translations: values.translations ?? fileConfig.translations,
+  };
+}
+
+/**
+ * Render a report as a fixed-width table
+ */
+function formatTable(report: CheckReport): string {
+  const header = ['Severity', 'Locale', 'Key', 'Issue'];
+  const rows = report.issues.map((issue) => [issue.severity, issue.locale, issue.key, issue.message]);
+  const widths = header.map((title, i) => Math.max(title.length, ...rows.map((row) => row[i].length)));
+  const formatRow = (row: string[]) => row.map((cell, i) => cell.padEnd(widths[i])).join('  ').trimEnd();
+
+  const lines: string[] = [];
+  if (rows.length > 0) {
+    lines.push(formatRow(header));
+    lines.push(widths.map((w) => '-'.repeat(w)).join('  '));
+    lines.push(...rows.map(formatRow));
+    lines.push('');
+  }
+  lines.push(
+    `[ez-i18n] Checked ${report.keyCount} keys across ${report.locales.length} locales: ` +
+    `${report.errors} error(s), ${report.warnings} warning(s)`
+  );
+  return lines.join('\n');
+}
+
+/**
+ * Render a scan report as grouped lists
+ */
+function formatScan(report: ScanReport): string {
+  const lines: string[] = [];
+
+  if (report.undeclared.length > 0) {
+    lines.push(`Undeclared keys (used but not defined in ${report.defaultLocale}):`);
+    lines.push(...report.undeclared.map((usage) => `  ${usage.key}  ${usage.file}:${usage.line}`));
+    lines.push('');
+  }
+  if (report.unused.length > 0) {
+    lines.push('Unused keys:');
+    lines.push(...report.unused.map((key) => `  ${key}`));
+    lines.push('');
+  }
+  if (report.dynamic.length > 0) {
+    lines.push('Dynamic keys (not resolved statically):');
+    lines.push(...report.dynamic.map((usage) => `  ${usage.expression}  ${usage.file}:${usage.line}`));
+    lines.push('');
+  }
+
+  lines.push(
+    `[ez-i18n] Scanned ${report.filesScanned} files: ${report.undeclared.length} undeclared, ` +
+    `${report.unused.length} unused, ${report.dynamic.length} dynamic`
+  );
+  return lines.join('\n');
+}
+
+function writeReport(values: CliValues, projectRoot: string, report: unknown): void {
+  if (values.report) {
+    fs.writeFileSync(path.resolve(projectRoot, values.report), JSON.stringify(report, null, 2));
+  }
+}
+
+async function runCheck(values: CliValues): Promise<number> {
+  const projectRoot = path.resolve(values.root ?? process.cwd());
+  const config = loadConfig(values, projectRoot);
+  const report = await checkTranslations(config, projectRoot);
+
+  writeReport(values, projectRoot, report);
+  console.log(values.json ? JSON.stringify(report, null, 2) : formatTable(report));
+  return report.errors > 0 ? 1 : 0;
+}
+
+async function runScan(values: CliValues): Promise<number> {
+  const projectRoot = path.resolve(values.root ?? process.cwd());
+  const config = loadConfig(values, projectRoot);
+  const report = await scanTranslationUsage(config, projectRoot, values.src ?? DEFAULT_SCAN_PATTERNS);
+
+  writeReport(values, projectRoot, report);
+  console.log(values.json ? JSON.stringify(report, null, 2) : formatScan(report));
+  const failed = report.undeclared.length > 0 || (values.strict && report.unused.length > 0);
+  return failed ? 1 : 0;
+}
+
+async function main(): Promise<void> {
+  const { values, positionals } = parseArgs({ options, allowPositionals: true });
+  const [command] = positionals;
+
+  if (values.help || !command) {
+    console.log(HELP);
+    return;
+  }
+
+  switch (command) {
+    case 'check':
+      process.exitCode = await runCheck(values);
+      break;
+    case 'scan':
+      process.exitCode = await runScan(values);
+      break;
+    default:
+      console.error(`[ez-i18n] Unknown command: ${command}\n\n${HELP}`);
+      process.exitCode = 2;
+  }
+}
+
+main().catch((error) => {
+  console.error('[ez-i18n]', error instanceof Error ? error.message : error);
+  process.exitCode = 2;
+});
@@ -1,11 +1,46 @@
 import type { AstroIntegration, HookParameters } from 'astro';
+import { fileURLToPath } from 'node:url';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
 import type { EzI18nConfig } from './types';
-import { vitePlugin, resolveConfig } from './vite-plugin';
+import { vitePlugin, resolveConfig, type VitePluginOptions } from './vite-plugin';
+import { generateKeyTypesFromConfig } from './utils/typegen';
+import { writeStaticVariants, writePrefixedPages } from './utils/static';
+import { writeLocalizedSitemap } from './utils/sitemap';
+import { buildLocaleToBCP47 } from './utils/locales';
 
-export type { EzI18nConfig, TranslateFunction } from './types';
-export { LOCALE_DATABASE, getLocaleInfo, buildLocaleNames, buildLocaleToBCP47, buildLocaleDirections } from './utils/locales';
+export type {
+  EzI18nConfig,
+  FallbackLocaleConfig,
+  TranslateFunction,
+  TranslateArgs,
+  TranslationKey,
+  TranslationKeyRegistry,
+  EmbeddedTranslationString,
+  FormatPresets,
+  Formatters,
+  MissingKeyStrategy,
+  MissingKeySource,
+  MissingKeyContext,
+  MissingKeyHandler,
+  MissingKeyBeaconOptions,
+  PseudoLocaleOptions,
+  PseudoLocalizeOptions,
+  StaticVariantsLayout,
+  CompiledMessage,
+  CompiledMessages,
+  LocaleResolver,
+  BuiltinLocaleResolver,
+  LocaleResolverFunction,
+  PrefixRoutesOptions,
+  SitemapOptions,
+} from './types';
+export { LOCALE_DATABASE, getLocaleInfo, buildLocaleNames, buildLocaleToBCP47, buildLocaleDirections, buildFallbackChains } from './utils/locales';
 export type { LocaleInfo } from './utils/locales';
 
+/** Locale → hashed translation bundle URL, written to the build output root */
+const TRANSLATION_BUNDLES_MANIFEST = 'ez-i18n-bundles.json';
+
 /**
  * ez-i18n Astro integration
  *
@@ -30,6 +65,9 @@ export type { LocaleInfo } from './utils/locales';
  */
 export default function ezI18n(config: EzI18nConfig): AstroIntegration {
   const resolved = resolveConfig(config);
+  const pluginOptions: VitePluginOptions = {};
+  let base = '/';
+  let site: string | undefined;
 
   return {
     name: 'ez-i18n',
@@ -42,7 +80,7 @@ export default function ezI18n(config: EzI18nConfig): AstroIntegration {
         // Add Vite plugin for virtual modules
         updateConfig({
           vite: {
-            plugins: [vitePlugin(config)],
+            plugins: [vitePlugin(config, pluginOptions)],
           },
         });
 
@@ -70,23 +108,53 @@ export default function ezI18n(config: EzI18nConfig): AstroIntegration {
         injectScript('head-inline', hydrationScript);
 
         // View Transitions support - re-initializes i18n after Astro page swaps
+        // (the swap copies <html> attributes from the new page, which may predate a setLocale())
         const viewTransitionsScript = `
-import { initLocale, setTranslations } from '@zachhandley/ez-i18n/runtime';
+import {
+  initLocale,
+  setTranslations,
+  setLocaleToBCP47,
+  setLocaleDirections,
+  applyDocumentLocale,
+} from '@zachhandley/ez-i18n/runtime';
+import { localeToBCP47, localeDirections } from 'ez-i18n:config';
+
+setLocaleToBCP47(localeToBCP47);
+setLocaleDirections(localeDirections);
 
 document.addEventListener('astro:after-swap', () => {
   const initData = globalThis.__EZ_I18N__;
   if (initData) {
-    initLocale(initData.locale, initData.translations);
+    initLocale(initData.locale, initData.translations, initData.namespaces);
     setTranslations(initData.translations);
+    applyDocumentLocale(initData.locale);
   }
 });
 `;
         injectScript('page', viewTransitionsScript);
       },
 
-      'astro:config:done': ({
+      'astro:config:done': async ({
+        config: astroConfig,
         injectTypes,
       }: HookParameters<'astro:config:done'>) => {
+        base = astroConfig.base;
+        pluginOptions.base = base;
+        site = astroConfig.site;
+
+        // Generate translation key types (regenerated by the Vite plugin on HMR)
+        if (config.typedKeys !== false) {
+          const keyTypesUrl = injectTypes({
+            filename: 'translation-keys.d.ts',
+            content: await generateKeyTypesFromConfig(
+              config,
+              fileURLToPath(astroConfig.root),
+              resolved.pathBasedNamespacing
+            ),
+          });
+          pluginOptions.keyTypesFile = fileURLToPath(keyTypesUrl);
+        }
+
         // Inject type declarations for virtual modules
         injectTypes({
           filename: 'virtual.d.ts',
@@ -104,22 +172,46 @@ declare module 'ez-i18n:config' {
   export const localeToBCP47: Record<string, string>;
   /** Text direction for each locale ('ltr' or 'rtl') */
   export const localeDirections: Record<string, 'ltr' | 'rtl'>;
+  /** Generated pseudo-locales (also listed in locales) */
+  export const pseudoLocales: string[];
   /** Explicit cookie domain override (undefined = auto-detect from hostname) */
   export const cookieDomain: string | undefined;
+  /** Ordered fallback locales for each locale (excluding the locale itself) */
+  export const fallbackChains: Record<string, string[]>;
+  /** Namespaces loaded for every request (null = whole locale) */
+  export const namespaces: string[] | null;
+  /** Named format presets for n()/d()/rt()/list() */
+  export const formats: import('@zachhandley/ez-i18n').FormatPresets;
+  /** What t() returns for a missing key */
+  export const missingKeyStrategy: import('@zachhandley/ez-i18n').MissingKeyStrategy;
+  /** Where missing keys are reported (null = no reporting) */
+  export const missingKeyBeacon: import('@zachhandley/ez-i18n').MissingKeyBeaconOptions | null;
+  /** Hostname or wildcard pattern → locale */
+  export const domains: Record<string, string>;
+  /** Routes served under /{locale}/ and the Astro base (null = cookie-only) */
+  export const prefixRoutes: (Required<import('@zachhandley/ez-i18n').PrefixRoutesOptions> & { base: string }) | null;
 }
 
 declare module 'ez-i18n:runtime' {
   import type { ReadableAtom } from 'nanostores';
+  import type { TranslationKey, TranslateArgs, Formatters, MissingKeyHandler } from '@zachhandley/ez-i18n';
   /** Reactive store containing the current locale */
   export const locale: ReadableAtom<string>;
   /**
    * Translate a key to the current locale
    * @param key - Dot-notation key (e.g., 'common.welcome')
-   * @param params - Optional interpolation params for {placeholder} syntax
+   * @param params - Optional interpolation params for {placeholder} and ICU plural/select syntax
+   */
+  export function t<K extends TranslationKey>(key: K, ...args: TranslateArgs<K>): string;
+  /**
+   * Create a reactive translation computed (nanostore computed atom)
+   * @param key - Dot-notation key (e.g., 'common.welcome')
+   * @param params - Optional interpolation params for {placeholder} and ICU plural/select syntax
    */
-  export function t(key: string, params?: Record<string, string | number>): string;
+  export function tc<K extends TranslationKey>(key: K, ...args: TranslateArgs<K>): ReadableAtom<string>;
   /**
    * Set the current locale and persist to cookie/localStorage
+   * Loads the locale's translations and updates <html lang> and dir.
    * @param locale - Locale code to switch to
    * @param cookieName - Optional custom cookie name
    */
@@ -129,18 +221,150 @@ declare module 'ez-i18n:runtime' {
    * @param locale - Initial locale code
    * @param translations - Optional initial translations object
    */
-  export function initLocale(locale: string, translations?: Record<string, unknown>): void;
+  export function initLocale(
+    locale: string,
+    translations?: Record<string, unknown>,
+    namespaces?: string[]
+  ): void;
+  /**
+   * Load translation namespaces on demand and merge them into the translations store
+   * @param namespaces - Namespace(s) to load, e.g. 'auth' or ['auth.*', 'settings']
+   * @param locale - Locale to load for (defaults to the current locale)
+   */
+  export function loadNamespace(namespaces: string | string[], locale?: string): Promise<void>;
+  /**
+   * Register a custom missing key handler (null to remove it)
+   * Return a string to use it as the translation, or undefined to apply the configured strategy.
+   */
+  export function setMissingKeyHandler(handler: MissingKeyHandler | null): void;
+  /** Format a number for the current locale (preset name or Intl.NumberFormat options) */
+  export const n: Formatters['n'];
+  /** Format a date for the current locale (preset name or Intl.DateTimeFormat options) */
+  export const d: Formatters['d'];
+  /** Format relative time for the current locale, e.g. rt(-1, 'day') */
+  export const rt: Formatters['rt'];
+  /** Format a list for the current locale, e.g. list(['a', 'b']) */
+  export const list: Formatters['list'];
+  /** Localized display name of a language/region/script/currency code */
+  export const displayName: Formatters['displayName'];
+  /** Reactive n() - updates when the locale changes */
+  export function nc(...args: Parameters<Formatters['n']>): ReadableAtom<string>;
+  /** Reactive d() - updates when the locale changes */
+  export function dc(...args: Parameters<Formatters['d']>): ReadableAtom<string>;
+  /** Reactive rt() - updates when the locale changes */
+  export function rtc(...args: Parameters<Formatters['rt']>): ReadableAtom<string>;
+  /** Reactive list() - updates when the locale changes */
+  export function listc(...args: Parameters<Formatters['list']>): ReadableAtom<string>;
+  /** Reactive displayName() - updates when the locale changes */
+  export function displayNamec(...args: Parameters<Formatters['displayName']>): ReadableAtom<string>;
+}
+
+declare module 'ez-i18n:resolvers' {
+  /** Ordered locale detection sources, custom resolvers included (server-only) */
+  const resolvers: import('@zachhandley/ez-i18n').LocaleResolver[];
+  export default resolvers;
+}
+
+declare module 'ez-i18n:missing-handler' {
+  /** Default export of the missingKeyHandler module (null when not configured) */
+  const missingKeyHandler: import('@zachhandley/ez-i18n').MissingKeyHandler | null;
+  export default missingKeyHandler;
 }
 
 declare module 'ez-i18n:translations' {
-  /** Load translations for a specific locale */
-  export function loadTranslations(locale: string): Promise<Record<string, unknown>>;
-  /** Get the translation loader map from config */
+  /** Load translations for a specific locale (merged with its fallback chain), optionally only some namespaces */
+  export function loadTranslations(locale: string, namespaces?: string | string[]): Promise<Record<string, unknown>>;
+  /** Get the translation loader map from config (each loader includes fallbacks) */
   export const translationLoaders: Record<string, () => Promise<{ default: Record<string, unknown> }>>;
+  /** Locale → URL of the content-hashed translation bundle for public/ translations (empty in dev) */
+  export const translationBundles: Record<string, string>;
+  /** Load the precompiled messages of a locale (null outside SSR builds with precompile) */
+  export function loadCompiledMessages(locale: string): Promise<import('@zachhandley/ez-i18n').CompiledMessages | null>;
 }
 `,
         });
       },
+
+      // Static builds: the middleware renders every prerendered page once per locale
+      'astro:build:start': () => {
+        if (resolved.staticVariants) {
+          globalThis.__EZ_I18N_STATIC__ = new Map();
+        }
+        // Astro can't rewrite /{locale}/ requests to prerendered pages, so they are written as copies
+        if (resolved.prefixRoutes) {
+          globalThis.__EZ_I18N_PREFIXED__ = new Map();
+        }
+      },
+
+      'astro:build:done': ({ dir, pages, logger }: HookParameters<'astro:build:done'>) => {
+        const outDir = fileURLToPath(dir);
+
+        // Hashed bundles can be cached forever; this manifest maps locales to them
+        const bundles = pluginOptions.translationBundles;
+        if (bundles && Object.keys(bundles).length > 0) {
+          fs.writeFileSync(path.join(outDir, TRANSLATION_BUNDLES_MANIFEST), JSON.stringify(bundles, null, 2));
+        }
+
+        const rendered = globalThis.__EZ_I18N_STATIC__;
+        let variants: Record<string, Record<string, string>> | undefined;
+        if (resolved.staticVariants && rendered) {
+          globalThis.__EZ_I18N_STATIC__ = undefined;
+
+          const manifest = writeStaticVariants(outDir, rendered, {
+            layout: resolved.staticVariants,
+            defaultLocale: resolved.defaultLocale,
+            cookieName: resolved.cookieName,
+            cookieDomain: resolved.cookieDomain,
+            base,
+          });
+          variants = manifest.pages;
+          logger.info(`Wrote locale variants for ${Object.keys(manifest.pages).length} pages`);
+        }
+
+        const prefixed = globalThis.__EZ_I18N_PREFIXED__;
+        if (resolved.prefixRoutes && prefixed) {
+          globalThis.__EZ_I18N_PREFIXED__ = undefined;
+
+          const written = writePrefixedPages(outDir, prefixed, {
+            routing: {
+              ...resolved.prefixRoutes,
+              locales: pluginOptions.locales ?? resolved.locales,
+              defaultLocale: resolved.defaultLocale,
+              base,
+            },
+            cookieName: resolved.cookieName,
+            cookieDomain: resolved.cookieDomain,
+          });
+          if (written.length > 0) logger.info(`Wrote ${written.length} /{locale}/ pages for prefixRoutes`);
+        }
+
+        if (resolved.sitemap) {
+          if (!site) {
+            logger.warn('sitemap requires `site` in the Astro config, skipping hreflang alternates');
+            return;
+          }
+
+          // Pseudo-locales are for testing and stay out of the sitemap
+          const allLocales = pluginOptions.locales ?? resolved.locales;
+          const locales = allLocales.filter((locale) => !resolved.pseudoLocales[locale]);
+          const root = base.replace(/\/?$/, '/');
+          const { prefixRoutes, defaultLocale } = resolved;
+          const files = writeLocalizedSitemap(
+            outDir,
+            pages.map(({ pathname }) => new URL(root + pathname, site).href),
+            {
+              locales,
+              defaultLocale,
+              localeToBCP47: buildLocaleToBCP47(locales),
+              domains: resolved.domains,
+              routing: prefixRoutes ? { ...prefixRoutes, locales: allLocales, defaultLocale, base } : undefined,
+              exclude: resolved.sitemap.exclude,
+              variants,
+            }
+          );
+          logger.info(`Added hreflang alternates to ${files.join(', ')}`);
+        }
+      },
     },
   };
 }
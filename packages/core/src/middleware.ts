@@ -1,6 +1,34 @@
 import { defineMiddleware } from 'astro:middleware';
 import { getDomain } from 'tldts';
-import type { TranslateFunction } from './types';
+import type { TranslateFunction, EzI18nContext, LocaleResolver } from './types';
+import { normalizeNamespaces, isNamespaceLoaded, mergeTranslations } from './runtime/namespaces';
+import { negotiateLocale } from './utils/negotiate';
+import { createFormatters, setFormatPresets } from './runtime/format';
+import { setContextStorage, runWithI18nContext } from './runtime/context';
+import { setMissingKeyStrategy, setMissingKeyHandler, enableMissingKeyBeacon } from './runtime/missing';
+import { translateWith, setLocaleToBCP47 } from './runtime/translate';
+import { getDomainLocale } from './runtime/domains';
+import { setPrefixRouting, splitLocalePrefix, isPrefixedRoute, localizePath } from './runtime/routing';
+
+/**
+ * Register an AsyncLocalStorage for request-scoped contexts (once per process).
+ * Uses the global one (Workers, Deno) or node:async_hooks; without either,
+ * requests share globalThis.__EZ_I18N__.
+ */
+async function ensureContextStorage(): Promise<void> {
+  if (globalThis.__EZ_I18N_STORAGE__ !== undefined) return;
+
+  type StorageConstructor = new () => NonNullable<typeof globalThis.__EZ_I18N_STORAGE__>;
+  let Storage = (globalThis as { AsyncLocalStorage?: StorageConstructor }).AsyncLocalStorage;
+  if (!Storage) {
+    try {
+      Storage = (await import('node:async_hooks')).AsyncLocalStorage as StorageConstructor;
+    } catch {
+      // Runtime without async_hooks
+    }
+  }
+  setContextStorage(Storage ? new Storage() : null);
+}
 
 /**
  * Get the cookie domain for subdomain support using Mozilla's Public Suffix List.
@@ -18,103 +46,292 @@ function getCookieDomain(hostname: string): string | undefined {
 }
 
 /**
- * Create a server-side translation function for the given translations object
+ * Create a server-side translation function reading the request context
+ * (the same pipeline as t(), bound to this request)
+ */
+function createT(context: EzI18nContext): TranslateFunction {
+  return (key: string, params?: Record<string, string | number>): string =>
+    translateWith(context, key, params, 'locals');
+}
+
+/**
+ * Set the Content-Language header so search engines know the language of
+ * cookie-based pages (pages can set their own)
  */
-function createT(translations: Record<string, unknown>): TranslateFunction {
-  return (key: string, params?: Record<string, string | number>): string => {
-    const keys = key.split('.');
-    let value: unknown = translations;
-    for (const k of keys) {
-      if (value == null || typeof value !== 'object') return key;
-      value = (value as Record<string, unknown>)[k];
+function withContentLanguage(response: Response, bcp47: string): Response {
+  if (!response.headers.has('Content-Language')) {
+    try {
+      response.headers.set('Content-Language', bcp47);
+    } catch {
+      // Immutable headers (e.g. a proxied fetch response)
     }
-    if (typeof value !== 'string') return key;
-    if (!params) return value;
-    return value.replace(/\{(\w+)\}/g, (_, p) => String(params[p] ?? `{${p}}`));
-  };
+  }
+  return response;
 }
 
 /**
  * Locale detection middleware for ez-i18n
  *
- * Detection priority:
+ * Detection runs the configured `resolvers` in order (default priority):
  * 1. ?lang query parameter (allows explicit switching)
  * 2. Cookie value
  * 3. Accept-Language header
  * 4. Default locale
+ *
+ * With `prefixRoutes`, a `/{locale}/` prefix wins over the resolvers on the
+ * configured routes (the prefix is stripped and the unprefixed page rendered).
+ *
+ * With `staticVariants` (or on prefixed routes), prerendered pages are instead
+ * rendered once per locale during the build (the integration writes the
+ * variants or `/{locale}/` copies in astro:build:done).
  */
-export const onRequest = defineMiddleware(async ({ cookies, request, locals, redirect }, next) => {
+export const onRequest = defineMiddleware(async (astroContext, next) => {
+  const { cookies, request, locals, redirect, isPrerendered } = astroContext;
+
   // Import config from virtual module (provided by vite-plugin)
-  const { locales, defaultLocale, cookieName, cookieDomain } = await import('ez-i18n:config');
+  const {
+    locales,
+    defaultLocale,
+    cookieName,
+    cookieDomain,
+    localeToBCP47,
+    namespaces,
+    formats,
+    missingKeyStrategy,
+    missingKeyBeacon,
+    domains,
+    prefixRoutes,
+    fallbackChains,
+  } = await import('ez-i18n:config');
+  const { default: resolvers } = await import('ez-i18n:resolvers');
 
   const url = new URL(request.url);
 
-  // Priority 1: Query parameter
-  const langParam = url.searchParams.get('lang');
-
-  // Priority 2: Cookie
-  const cookieValue = cookies.get(cookieName)?.value;
-
-  // Priority 3: Accept-Language header
-  const acceptLang = request.headers.get('accept-language');
-  const browserLang = acceptLang?.split(',')[0]?.split('-')[0];
-
-  // Determine locale with priority
-  let locale = defaultLocale;
-
-  if (langParam && locales.includes(langParam)) {
-    locale = langParam;
-  } else if (cookieValue && locales.includes(cookieValue)) {
-    locale = cookieValue;
-  } else if (browserLang && locales.includes(browserLang)) {
-    locale = browserLang;
-  }
-
-  // Set locale on locals for use in pages
-  locals.locale = locale;
-
   // Expose Cloudflare ASSETS binding for translation loader (if available)
   const runtime = (locals as any).runtime;
   if (runtime?.env?.ASSETS) {
     (globalThis as any).__EZ_I18N_ASSETS__ = runtime.env.ASSETS;
   }
 
-  // Load translations for the current locale
-  try {
-    const { loadTranslations } = await import('ez-i18n:translations');
-    locals.translations = await loadTranslations(locale);
+  // Missing key handling (a handler registered at runtime wins over missingKeyHandler)
+  setMissingKeyStrategy(missingKeyStrategy);
+  const { default: missingKeyHandler } = await import('ez-i18n:missing-handler');
+  if (missingKeyHandler && globalThis.__EZ_I18N_MISSING__?.handler == null) {
+    setMissingKeyHandler(missingKeyHandler);
+  }
+  if (missingKeyBeacon && globalThis.__EZ_I18N_MISSING__?.beacon == null) {
+    enableMissingKeyBeacon(missingKeyBeacon);
+  }
+  setFormatPresets(formats);
+  setLocaleToBCP47(localeToBCP47);
+
+  // Whether the defaultLocale values aren't already merged in through the fallback chain
+  const needsFallbackTranslations = (locale: string) =>
+    locale !== defaultLocale && !fallbackChains[locale]?.includes(defaultLocale);
+
+  /**
+   * Load a locale into locals and build the request-scoped context for
+   * framework components rendered during this request
+   * (read through getI18nContext(), so concurrent requests never share it)
+   */
+  async function applyLocale(locale: string): Promise<EzI18nContext> {
+    // Set locale on locals for use in pages
+    locals.locale = locale;
+
+    // Load translations for the current locale (only the configured namespaces, if any)
+    const bcp47 = localeToBCP47[locale] ?? locale;
+    locals.namespaces = namespaces ? normalizeNamespaces(namespaces) : undefined;
+    try {
+      const { loadTranslations } = await import('ez-i18n:translations');
+      locals.translations = await loadTranslations(locale, locals.namespaces);
+    } catch {
+      // Fallback to empty translations if loader not configured
+      locals.translations = {};
+    }
 
-    // Set global context for cross-bundle access
-    // This ensures Vue/React can read translations even if nanostores are in different bundles
-    globalThis.__EZ_I18N__ = {
+    const context: EzI18nContext = {
       locale,
       translations: locals.translations,
+      namespaces: locals.namespaces,
     };
-  } catch {
-    // Fallback to empty translations if loader not configured
-    locals.translations = {};
+
+    // Precompiled messages (only generated for SSR builds with `precompile`)
+    try {
+      const { loadCompiledMessages } = await import('ez-i18n:translations');
+      context.messages = (await loadCompiledMessages(locale)) ?? undefined;
+    } catch {
+      // Not available - t() reads the translations tree
+    }
+
+    // The 'fallback' strategy needs the defaultLocale translations
+    // (unless the fallback chain already merges them into the locale's)
+    if (missingKeyStrategy === 'fallback' && needsFallbackTranslations(locale)) {
+      try {
+        const { loadTranslations } = await import('ez-i18n:translations');
+        context.fallbackTranslations = await loadTranslations(defaultLocale, locals.namespaces);
+      } catch {
+        // No fallback available - missing keys return the key
+      }
+    }
+
+    // Create server-side translation function
+    locals.t = createT(context);
+
+    // Intl formatting helpers bound to the request locale
+    Object.assign(locals, createFormatters(() => bcp47));
+
+    // Let pages pull in the namespaces they need before rendering
+    locals.loadNamespaces = async (requested: string | string[]) => {
+      const loaded = locals.namespaces;
+      if (!loaded) return; // Whole locale already loaded
+
+      const missing = normalizeNamespaces(requested).filter((ns) => !isNamespaceLoaded(loaded, ns));
+      if (missing.length === 0) return;
+
+      try {
+        const { loadTranslations } = await import('ez-i18n:translations');
+        locals.translations = mergeTranslations(locals.translations, await loadTranslations(locale, missing));
+        if (context.fallbackTranslations) {
+          context.fallbackTranslations = mergeTranslations(
+            context.fallbackTranslations,
+            await loadTranslations(defaultLocale, missing)
+          );
+        }
+      } catch {
+        return;
+      }
+      locals.namespaces = [...loaded, ...missing];
+      context.translations = locals.translations;
+      context.namespaces = locals.namespaces;
+    };
+
+    return context;
+  }
+
+  await ensureContextStorage();
+
+  const routing = prefixRoutes ? { ...prefixRoutes, locales, defaultLocale } : undefined;
+  setPrefixRouting(routing ?? null);
+
+  // Static builds: render the page for every locale (no cookies or headers at build time).
+  // Prefixed routes get /{locale}/ copies, other pages the staticVariants variants.
+  // Astro 4 has no isPrerendered, but the maps only exist during `astro build`,
+  // where the middleware runs for prerendered pages only.
+  const staticPages = routing && isPrefixedRoute(url.pathname, routing)
+    ? globalThis.__EZ_I18N_PREFIXED__
+    : globalThis.__EZ_I18N_STATIC__;
+  if (staticPages && (isPrerendered ?? true)) {
+    const isHtmlPage = (res: Response) => res.ok && Boolean(res.headers.get('content-type')?.includes('text/html'));
+
+    const response = await runWithI18nContext(await applyLocale(defaultLocale), () => next());
+    if (!isHtmlPage(response)) return response;
+
+    const rendered: Record<string, string> = { [defaultLocale]: await response.text() };
+    for (const locale of locales) {
+      if (locale === defaultLocale) continue;
+      const variant = await runWithI18nContext(await applyLocale(locale), () => next());
+      if (!isHtmlPage(variant)) {
+        console.warn(`[ez-i18n] Skipped the ${locale} variant of ${url.pathname} (status ${variant.status})`);
+        continue;
+      }
+      rendered[locale] = await variant.text();
+    }
+    staticPages.set(url.pathname, rendered);
+
+    const page = new Response(rendered[defaultLocale], {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+    });
+    return withContentLanguage(page, localeToBCP47[defaultLocale] ?? defaultLocale);
   }
 
-  // Create server-side translation function
-  locals.t = createT(locals.translations);
+  const langParam = url.searchParams.get('lang');
+  const cookieValue = cookies.get(cookieName)?.value;
 
-  // Update cookie if changed via query param, then redirect to clean URL
-  if (langParam && langParam !== cookieValue && locales.includes(langParam)) {
+  const setLocaleCookie = (value: string) => {
     // Use explicit config domain, or auto-detect from hostname
     const domain = cookieDomain || getCookieDomain(url.hostname);
 
-    cookies.set(cookieName, locale, {
+    cookies.set(cookieName, value, {
       path: '/',
       maxAge: 60 * 60 * 24 * 365, // 1 year
       sameSite: 'lax',
       ...(domain ? { domain } : {}),
     });
+  };
+
+  // URL-prefix routing: a /{locale}/ prefix wins over the resolvers
+  const prefix = routing ? splitLocalePrefix(url.pathname, locales, routing.base) : undefined;
+  if (routing && prefix?.locale) {
+    const prefixLocale = prefix.locale;
+    if (prefixLocale !== cookieValue) setLocaleCookie(prefixLocale);
+
+    // Not a prefixed route (or an unprefixed defaultLocale) - redirect to its canonical URL
+    const target = localizePath(prefix.pathname, prefixLocale, routing);
+    if (target.replace(/\/+$/, '') !== url.pathname.replace(/\/+$/, '')) {
+      return redirect(target + url.search);
+    }
+
+    // Render the unprefixed page (prerendered pages are served from the /{locale}/
+    // copies written at build time; Astro only allows rewrites to on-demand pages)
+    const context = await applyLocale(prefixLocale);
+    const response = await runWithI18nContext(context, () => next(prefix.pathname + url.search));
+    return withContentLanguage(response, localeToBCP47[prefixLocale] ?? prefixLocale);
+  }
+
+  // Run the resolvers in order - the first supported locale wins
+  let locale = defaultLocale;
+  let resolvedBy: LocaleResolver | undefined;
+
+  for (const resolver of resolvers) {
+    let detected: string | undefined;
+    if (resolver === 'domain') {
+      const domainLocale = getDomainLocale(url.hostname, domains);
+      detected = domainLocale && locales.includes(domainLocale) ? domainLocale : undefined;
+    } else if (resolver === 'query') {
+      detected = langParam && locales.includes(langParam) ? langParam : undefined;
+    } else if (resolver === 'cookie') {
+      detected = cookieValue && locales.includes(cookieValue) ? cookieValue : undefined;
+    } else if (resolver === 'acceptLanguage') {
+      // q-weights, regional and base-language matching
+      const acceptLang = request.headers.get('accept-language');
+      detected = acceptLang ? negotiateLocale(acceptLang, locales) : undefined;
+    } else if (typeof resolver === 'function') {
+      try {
+        const value = await resolver(astroContext, { locales, defaultLocale });
+        if (value) detected = locales.includes(value) ? value : negotiateLocale(value, locales);
+      } catch (error) {
+        console.error('[ez-i18n] Locale resolver failed:', error);
+      }
+    }
+
+    if (detected) {
+      locale = detected;
+      resolvedBy = resolver;
+      break;
+    }
+  }
+
+  // Prefixed routes are served from /{locale}/ (which syncs the cookie)
+  if (routing && isPrefixedRoute(url.pathname, routing)) {
+    const target = localizePath(url.pathname, locale, routing);
+    if (target !== url.pathname) {
+      const localizedUrl = new URL(url);
+      localizedUrl.pathname = target;
+      localizedUrl.searchParams.delete('lang');
+      return redirect(localizedUrl.pathname + localizedUrl.search);
+    }
+  }
+
+  const context = await applyLocale(locale);
 
-    // Redirect to clean URL (remove ?lang param)
-    const cleanUrl = new URL(url);
-    cleanUrl.searchParams.delete('lang');
-    return redirect(cleanUrl.toString());
+  // Update cookie if changed via query param. The ?lang= URL is rendered in
+  // place (no redirect), so it can be linked as the locale's hreflang alternate.
+  if (resolvedBy === 'query' && langParam !== cookieValue) {
+    setLocaleCookie(locale);
   }
 
-  return next();
+  const response = await runWithI18nContext(context, () => next());
+  return withContentLanguage(response, localeToBCP47[locale] ?? locale);
 });
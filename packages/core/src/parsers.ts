@@ -0,0 +1,59 @@
+import { parse as parseYaml } from 'yaml';
+import JSON5 from 'json5';
+import { parse as parseToml } from 'smol-toml';
+
+/**
+ * Supported translation file extensions
+ */
+export const TRANSLATION_EXTENSIONS = ['.json', '.json5', '.yaml', '.yml', '.toml'] as const;
+
+const extensionPattern = /\.(json5?|ya?ml|toml)$/i;
+
+/**
+ * Check if a file path has a supported translation extension
+ */
+export function isTranslationFile(filePath: string): boolean {
+  return extensionPattern.test(filePath);
+}
+
+/**
+ * Strip the translation extension from a file path
+ */
+export function stripTranslationExtension(filePath: string): string {
+  return filePath.replace(extensionPattern, '');
+}
+
+/**
+ * Parse translation file contents based on the file extension.
+ * Empty files resolve to an empty object.
+ *
+ * @param content - Raw file contents
+ * @param filePath - File path or URL (used to pick the parser)
+ */
+export function parseTranslationFile(content: string, filePath: string): Record<string, unknown> {
+  if (!content.trim()) return {};
+
+  const ext = filePath.replace(/[?#].*$/, '').match(extensionPattern)?.[1].toLowerCase();
+  let parsed: unknown;
+
+  switch (ext) {
+    case 'yaml':
+    case 'yml':
+      parsed = parseYaml(content);
+      break;
+    case 'json5':
+      parsed = JSON5.parse(content);
+      break;
+    case 'toml':
+      parsed = parseToml(content);
+      break;
+    default:
+      parsed = JSON.parse(content);
+  }
+
+  if (parsed === null || parsed === undefined) return {};
+  if (typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error(`Translation file must contain an object: ${filePath}`);
+  }
+  return parsed as Record<string, unknown>;
+}
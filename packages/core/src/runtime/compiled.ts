@@ -0,0 +1,77 @@
+/**
+ * Precompiled messages
+ *
+ * With `precompile`, the build turns every message into a function (see
+ * utils/compile.ts). These helpers are what the generated functions call, and
+ * formatCompiled() is the lookup used by t(), tc(), Astro.locals.t and the
+ * framework packages before falling back to the translation tree.
+ */
+import type { CompiledMessages } from '../types';
+import { getPluralRules, formatNumber } from './icu';
+import { isNamespaceLoaded } from './namespaces';
+
+type Branches<A extends unknown[]> = Record<string, ((...args: A) => string) | undefined>;
+
+/**
+ * Runtime helpers referenced by compiled messages (same semantics as formatMessage())
+ */
+export const compiledHelpers = {
+  /** `{name}` - unknown placeholders are left untouched */
+  arg(params: Record<string, string | number>, name: string): string {
+    return name in params ? String(params[name]) : `{${name}}`;
+  },
+
+  /** `#` inside a plural branch */
+  num(value: number, locale: string): string {
+    return formatNumber(value, locale);
+  },
+
+  /** `{name, plural|selectordinal, ...}` - branches receive the value minus the offset */
+  plural(
+    value: string | number,
+    locale: string,
+    ordinal: boolean,
+    offset: number,
+    branches: Branches<[number]>
+  ): string {
+    const number = Number(value);
+    let branch = branches[`=${number}`];
+    if (!branch) {
+      const category = Number.isNaN(number)
+        ? 'other'
+        : getPluralRules(locale, ordinal).select(number - offset);
+      branch = branches[category] ?? branches.other;
+    }
+    return branch ? branch(number - offset) : '';
+  },
+
+  /** `{name, select, ...}` */
+  select(value: string | number, branches: Branches<[]>): string {
+    const key = String(value);
+    const branch = (Object.hasOwn(branches, key) ? branches[key] : undefined) ?? branches.other;
+    return branch ? branch() : '';
+  },
+};
+
+/**
+ * Format a key with precompiled messages
+ *
+ * @param namespaces - Loaded namespaces (keys outside them are left to the tree lookup,
+ *   so SSR output matches what the client can render)
+ * @param bcp47 - BCP47 tag for plural rules and number formatting
+ * @returns The formatted message, or undefined when the key isn't precompiled
+ */
+export function formatCompiled(
+  messages: CompiledMessages | undefined,
+  namespaces: string[] | undefined,
+  key: string,
+  params: Record<string, string | number> | undefined,
+  bcp47: string
+): string | undefined {
+  // Own keys only - 'constructor', 'toString' etc. must fall through to missing key handling
+  if (!messages || !Object.hasOwn(messages, key)) return undefined;
+  const message = messages[key];
+  if (message === undefined) return undefined;
+  if (namespaces && !isNamespaceLoaded(namespaces, key)) return undefined;
+  return typeof message === 'string' ? message : message(params, bcp47);
+}
@@ -0,0 +1,69 @@
+/**
+ * Request-scoped i18n context
+ *
+ * On the server the middleware runs each request inside an AsyncLocalStorage
+ * (when the runtime provides one), so concurrent renders never see each
+ * other's locale. Without one it falls back to the shared
+ * `globalThis.__EZ_I18N__`, which is also what EzI18nHead sets in the browser.
+ *
+ * The storage lives on globalThis so every bundle (middleware, runtime,
+ * framework packages) resolves the same request.
+ */
+import type { ContextStorage, EzI18nContext } from '../types';
+
+const isServer = typeof window === 'undefined';
+
+/**
+ * Register the storage used to scope contexts to a request
+ * Called by the middleware; pass null when the runtime has no AsyncLocalStorage.
+ */
+export function setContextStorage(storage: ContextStorage<EzI18nContext> | null): void {
+  globalThis.__EZ_I18N_STORAGE__ = storage;
+}
+
+/**
+ * Get the i18n context for the current request (server) or page (browser)
+ */
+export function getI18nContext(): EzI18nContext | undefined {
+  return globalThis.__EZ_I18N_STORAGE__?.getStore() ?? globalThis.__EZ_I18N__;
+}
+
+/**
+ * Run `fn` with `context` as the current request's i18n context
+ * Falls back to the shared global (not isolated between concurrent requests)
+ * when no storage is registered.
+ */
+export function runWithI18nContext<R>(context: EzI18nContext, fn: () => R): R {
+  const storage = globalThis.__EZ_I18N_STORAGE__;
+  if (storage) return storage.run(context, fn);
+  globalThis.__EZ_I18N__ = context;
+  return fn();
+}
+
+/**
+ * Pick the translations and locale to render with (plus the request's
+ * precompiled messages when the request context is used).
+ * On the server the request context wins, since the stores are shared by every
+ * request in the process. In the browser the stores win, with the
+ * server-provided context as a fallback while they are still empty.
+ *
+ * @param translations - Current value of the translations store
+ * @param locale - Current value of the locale store
+ */
+export function resolveRenderContext(
+  translations: Record<string, unknown>,
+  locale: string
+): Pick<EzI18nContext, 'translations' | 'locale' | 'namespaces' | 'messages'> {
+  if (isServer || Object.keys(translations).length === 0) {
+    const context = getI18nContext();
+    if (context?.translations) {
+      return {
+        translations: context.translations,
+        locale: context.locale,
+        namespaces: context.namespaces,
+        messages: context.messages,
+      };
+    }
+  }
+  return { translations, locale };
+}
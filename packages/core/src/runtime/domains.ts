@@ -0,0 +1,62 @@
+/**
+ * Domain → locale mapping
+ *
+ * With `domains`, the middleware picks the locale mapped to the request
+ * hostname, and setLocale({ redirect: true }) navigates to the domain of
+ * the new locale instead of adding `?lang=`.
+ */
+
+/** Hostname or `*.` pattern → locale (registered from the ez-i18n:config `domains`) */
+let localeDomains: Record<string, string> = {};
+
+/**
+ * Register the configured domain mapping (called by the ez-i18n:runtime module)
+ */
+export function setLocaleDomains(domains: Record<string, string>): void {
+  localeDomains = { ...domains };
+}
+
+/**
+ * Check if a hostname matches a domain pattern.
+ * `*.example.de` matches `example.de` and all of its subdomains.
+ */
+export function matchDomain(hostname: string, pattern: string): boolean {
+  const host = hostname.toLowerCase().replace(/\.$/, '');
+  if (!pattern.startsWith('*.')) return host === pattern;
+  const base = pattern.slice(2);
+  return host === base || host.endsWith('.' + base);
+}
+
+/**
+ * Get the locale mapped to a hostname (exact matches win over patterns,
+ * longer patterns over shorter ones)
+ *
+ * @example
+ * getDomainLocale('shop.example.de', { '*.example.de': 'de' }) // 'de'
+ */
+export function getDomainLocale(
+  hostname: string,
+  domains: Record<string, string> = localeDomains
+): string | undefined {
+  const patterns = Object.keys(domains).sort(
+    (a, b) => Number(a.startsWith('*.')) - Number(b.startsWith('*.')) || b.length - a.length
+  );
+  const match = patterns.find((pattern) => matchDomain(hostname, pattern));
+  return match ? domains[match] : undefined;
+}
+
+/**
+ * Get the hostname to navigate to for a locale: the first exact domain mapped
+ * to it, or the base domain of its first pattern
+ *
+ * @example
+ * getLocaleDomain('fr', { 'example.de': 'de', '*.example.fr': 'fr' }) // 'example.fr'
+ */
+export function getLocaleDomain(
+  locale: string,
+  domains: Record<string, string> = localeDomains
+): string | undefined {
+  const mapped = Object.keys(domains).filter((pattern) => domains[pattern] === locale);
+  const exact = mapped.find((pattern) => !pattern.startsWith('*.'));
+  return exact ?? mapped[0]?.slice(2);
+}
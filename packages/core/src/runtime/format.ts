@@ -0,0 +1,110 @@
+/**
+ * Intl formatting helpers for ez-i18n
+ *
+ * Formatter instances are cached per locale + options, and named presets
+ * (from `formats` in the integration config) can be used in place of options.
+ * Kept dependency-free so it can be bundled into the middleware as well as
+ * the client runtime.
+ */
+import type { FormatPresets, Formatters } from '../types';
+
+type FormatKind = keyof FormatPresets;
+
+/** Formatter instances keyed by `${kind}:${locale}:${options}` */
+const formatterCache = new Map<string, unknown>();
+
+let presets: FormatPresets = {};
+
+/**
+ * Register named format presets
+ * Called by the ez-i18n:runtime virtual module, EzI18nHead and the middleware.
+ */
+export function setFormatPresets(formats: FormatPresets): void {
+  if (formats === presets) return;
+  presets = formats;
+  formatterCache.clear();
+}
+
+/**
+ * Resolve a preset name or inline options
+ */
+function resolveOptions<T extends object>(
+  kind: FormatKind,
+  format: string | T | undefined
+): T | undefined {
+  if (typeof format !== 'string') return format;
+  const preset = presets[kind]?.[format] as T | undefined;
+  if (!preset && typeof import.meta !== 'undefined' && import.meta.env?.DEV) {
+    console.warn(`[ez-i18n] Unknown ${kind} format preset:`, format);
+  }
+  return preset;
+}
+
+/**
+ * Get (or create) a cached Intl formatter, falling back to the environment
+ * default locale when the tag is invalid
+ */
+function getFormatter<T, O extends object>(
+  kind: FormatKind | 'displayName',
+  locale: string,
+  options: O | undefined,
+  create: (locale: string | undefined, options: O | undefined) => T
+): T {
+  const cacheKey = `${kind}:${locale}:${options ? JSON.stringify(options) : ''}`;
+  let formatter = formatterCache.get(cacheKey) as T | undefined;
+  if (!formatter) {
+    try {
+      formatter = create(locale, options);
+    } catch {
+      formatter = create(undefined, options);
+    }
+    formatterCache.set(cacheKey, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Create formatting helpers bound to a locale
+ *
+ * @param getLocale - Returns the BCP47 tag to format with (called on every format)
+ *
+ * @example
+ * const { n, d } = createFormatters(() => 'de-DE');
+ * n(1234.5); // '1.234,5'
+ * d(new Date(), 'short'); // uses the `short` date preset
+ */
+export function createFormatters(getLocale: () => string): Formatters {
+  return {
+    n: (value, format) => {
+      const options = resolveOptions<Intl.NumberFormatOptions>('number', format);
+      return getFormatter('number', getLocale(), options, (l, o) => new Intl.NumberFormat(l, o)).format(value);
+    },
+
+    d: (value, format) => {
+      const options = resolveOptions<Intl.DateTimeFormatOptions>('date', format);
+      const date = value instanceof Date ? value : new Date(value);
+      return getFormatter('date', getLocale(), options, (l, o) => new Intl.DateTimeFormat(l, o)).format(date);
+    },
+
+    rt: (value, unit, format) => {
+      const options = resolveOptions<Intl.RelativeTimeFormatOptions>('relativeTime', format);
+      return getFormatter('relativeTime', getLocale(), options, (l, o) => new Intl.RelativeTimeFormat(l, o)).format(value, unit);
+    },
+
+    list: (items, format) => {
+      const options = resolveOptions<Intl.ListFormatOptions>('list', format);
+      return getFormatter('list', getLocale(), options, (l, o) => new Intl.ListFormat(l, o)).format(items);
+    },
+
+    displayName: (code, type = 'language') => {
+      const options: Intl.DisplayNamesOptions = typeof type === 'string' ? { type } : type;
+      const formatter = getFormatter('displayName', getLocale(), options, (l, o) => new Intl.DisplayNames(l, o!));
+      try {
+        return formatter.of(code) ?? code;
+      } catch {
+        // Invalid code for the requested type
+        return code;
+      }
+    },
+  };
+}
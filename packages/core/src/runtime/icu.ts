@@ -0,0 +1,359 @@
+/**
+ * Minimal ICU MessageFormat support for ez-i18n
+ *
+ * Supports the subset of ICU syntax that shows up in UI copy:
+ * - `{name}` - simple argument
+ * - `{count, plural, =0 {No items} one {# item} other {# items}}`
+ * - `{place, selectordinal, one {#st} two {#nd} few {#rd} other {#th}}`
+ * - `{gender, select, male {He} female {She} other {They}}`
+ *
+ * Kept dependency-free so it can be bundled into the middleware as well as
+ * the client runtime.
+ */
+
+export type MessageNode =
+  | string
+  | { type: 'argument'; name: string }
+  | { type: 'pound' }
+  | {
+      type: 'plural';
+      name: string;
+      ordinal: boolean;
+      offset: number;
+      options: Record<string, MessageNode[]>;
+      raw: string;
+    }
+  | {
+      type: 'select';
+      name: string;
+      options: Record<string, MessageNode[]>;
+      raw: string;
+    };
+
+interface ParserState {
+  pos: number;
+}
+
+const identifierPattern = /[\w-]/;
+const whitespacePattern = /\s/;
+
+/** Parsed messages keyed by source string */
+const messageCache = new Map<string, MessageNode[]>();
+
+/** Intl.PluralRules instances keyed by `${locale}:${type}` */
+const pluralRulesCache = new Map<string, Intl.PluralRules>();
+
+/** Intl.NumberFormat instances keyed by locale (used for `#`) */
+const numberFormatCache = new Map<string, Intl.NumberFormat>();
+
+function skipWhitespace(src: string, state: ParserState): void {
+  while (state.pos < src.length && whitespacePattern.test(src[state.pos])) {
+    state.pos++;
+  }
+}
+
+function readIdentifier(src: string, state: ParserState): string {
+  const start = state.pos;
+  while (state.pos < src.length && identifierPattern.test(src[state.pos])) {
+    state.pos++;
+  }
+  return src.slice(start, state.pos);
+}
+
+/**
+ * Parse the option list of a plural/select argument:
+ * `=0 {...} one {...} other {...}}` (consumes the closing brace)
+ */
+function parseOptions(
+  src: string,
+  state: ParserState,
+  inPlural: boolean
+): Record<string, MessageNode[]> | null {
+  const options: Record<string, MessageNode[]> = {};
+
+  while (state.pos < src.length) {
+    skipWhitespace(src, state);
+    if (src[state.pos] === '}') {
+      state.pos++;
+      return options;
+    }
+
+    let selector = '';
+    if (src[state.pos] === '=') {
+      state.pos++;
+      selector = '=' + readIdentifier(src, state);
+    } else {
+      selector = readIdentifier(src, state);
+    }
+    if (!selector || selector === '=') return null;
+
+    skipWhitespace(src, state);
+    if (src[state.pos] !== '{') return null;
+    state.pos++;
+
+    options[selector] = parseNodes(src, state, inPlural, true);
+
+    if (src[state.pos] !== '}') return null;
+    state.pos++;
+  }
+
+  return null;
+}
+
+/**
+ * Parse a `{...}` argument starting at the current position.
+ * Returns null (and restores the position) if the braces don't form a valid argument,
+ * so the caller can keep them as literal text.
+ */
+function parseArgument(src: string, state: ParserState, inPlural: boolean): MessageNode | null {
+  const start = state.pos;
+  const fail = () => {
+    state.pos = start;
+    return null;
+  };
+
+  state.pos++; // skip '{'
+  skipWhitespace(src, state);
+  const name = readIdentifier(src, state);
+  if (!name) return fail();
+  skipWhitespace(src, state);
+
+  if (src[state.pos] === '}') {
+    state.pos++;
+    return { type: 'argument', name };
+  }
+
+  if (src[state.pos] !== ',') return fail();
+  state.pos++;
+  skipWhitespace(src, state);
+  const type = readIdentifier(src, state);
+  skipWhitespace(src, state);
+
+  if (src[state.pos] !== ',') return fail();
+  state.pos++;
+
+  if (type === 'plural' || type === 'selectordinal') {
+    skipWhitespace(src, state);
+    let offset = 0;
+    if (src.startsWith('offset:', state.pos)) {
+      state.pos += 'offset:'.length;
+      skipWhitespace(src, state);
+      offset = Number(readIdentifier(src, state));
+      if (Number.isNaN(offset)) return fail();
+    }
+
+    const options = parseOptions(src, state, true);
+    if (!options) return fail();
+    return {
+      type: 'plural',
+      name,
+      ordinal: type === 'selectordinal',
+      offset,
+      options,
+      raw: src.slice(start, state.pos),
+    };
+  }
+
+  if (type === 'select') {
+    const options = parseOptions(src, state, inPlural);
+    if (!options) return fail();
+    return { type: 'select', name, options, raw: src.slice(start, state.pos) };
+  }
+
+  return fail();
+}
+
+/**
+ * Parse message text until the end of input (or a closing brace when nested)
+ */
+function parseNodes(
+  src: string,
+  state: ParserState,
+  inPlural: boolean,
+  nested: boolean
+): MessageNode[] {
+  const nodes: MessageNode[] = [];
+  let text = '';
+
+  const flush = () => {
+    if (text) {
+      nodes.push(text);
+      text = '';
+    }
+  };
+
+  while (state.pos < src.length) {
+    const ch = src[state.pos];
+
+    if (ch === '}' && nested) break;
+
+    if (ch === '#' && inPlural) {
+      flush();
+      nodes.push({ type: 'pound' });
+      state.pos++;
+      continue;
+    }
+
+    if (ch === '{') {
+      const node = parseArgument(src, state, inPlural);
+      if (node) {
+        flush();
+        nodes.push(node);
+        continue;
+      }
+    }
+
+    text += ch;
+    state.pos++;
+  }
+
+  flush();
+  return nodes;
+}
+
+/**
+ * Parse a message into nodes (cached per source string)
+ * Also used to compile messages at build time.
+ */
+export function parseMessage(message: string): MessageNode[] {
+  let nodes = messageCache.get(message);
+  if (!nodes) {
+    nodes = parseNodes(message, { pos: 0 }, false, false);
+    messageCache.set(message, nodes);
+  }
+  return nodes;
+}
+
+export function getPluralRules(locale: string | undefined, ordinal: boolean): Intl.PluralRules {
+  const type = ordinal ? 'ordinal' : 'cardinal';
+  const cacheKey = `${locale ?? ''}:${type}`;
+  let rules = pluralRulesCache.get(cacheKey);
+  if (!rules) {
+    try {
+      rules = new Intl.PluralRules(locale, { type });
+    } catch {
+      // Invalid locale tag - fall back to the environment default
+      rules = new Intl.PluralRules(undefined, { type });
+    }
+    pluralRulesCache.set(cacheKey, rules);
+  }
+  return rules;
+}
+
+export function formatNumber(value: number, locale: string | undefined): string {
+  const cacheKey = locale ?? '';
+  let formatter = numberFormatCache.get(cacheKey);
+  if (!formatter) {
+    try {
+      formatter = new Intl.NumberFormat(locale);
+    } catch {
+      formatter = new Intl.NumberFormat();
+    }
+    numberFormatCache.set(cacheKey, formatter);
+  }
+  return formatter.format(value);
+}
+
+function formatNodes(
+  nodes: MessageNode[],
+  params: Record<string, string | number>,
+  locale: string | undefined,
+  pluralValue?: number
+): string {
+  let result = '';
+
+  for (const node of nodes) {
+    if (typeof node === 'string') {
+      result += node;
+      continue;
+    }
+
+    switch (node.type) {
+      case 'argument':
+        // Leave unknown placeholders untouched
+        result += node.name in params ? String(params[node.name]) : `{${node.name}}`;
+        break;
+
+      case 'pound':
+        result += pluralValue === undefined ? '#' : formatNumber(pluralValue, locale);
+        break;
+
+      case 'plural': {
+        if (!(node.name in params)) {
+          result += node.raw;
+          break;
+        }
+        const value = Number(params[node.name]);
+        const exact = node.options[`=${value}`];
+        let branch = exact;
+        if (!branch) {
+          const category = Number.isNaN(value)
+            ? 'other'
+            : getPluralRules(locale, node.ordinal).select(value - node.offset);
+          branch = node.options[category] ?? node.options.other;
+        }
+        if (branch) {
+          result += formatNodes(branch, params, locale, value - node.offset);
+        }
+        break;
+      }
+
+      case 'select': {
+        if (!(node.name in params)) {
+          result += node.raw;
+          break;
+        }
+        const branch = node.options[String(params[node.name])] ?? node.options.other;
+        if (branch) {
+          result += formatNodes(branch, params, locale, pluralValue);
+        }
+        break;
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Format a message using ICU MessageFormat syntax
+ *
+ * @param message - Message string (e.g., 'You have {count, plural, one {# item} other {# items}}')
+ * @param params - Argument values
+ * @param locale - BCP47 tag used for plural rules and number formatting
+ *
+ * @example
+ * formatMessage('{count, plural, one {# item} other {# items}}', { count: 3 }, 'en-US') // '3 items'
+ * formatMessage('{gender, select, female {She} other {They}} replied', { gender: 'female' }) // 'She replied'
+ */
+export function formatMessage(
+  message: string,
+  params: Record<string, string | number>,
+  locale?: string
+): string {
+  if (!message.includes('{')) return message;
+  return formatNodes(parseMessage(message), params, locale);
+}
+
+/**
+ * Get the argument names referenced by a message (including plural/select arguments)
+ *
+ * @example
+ * getMessageArguments('Hi {name}, {count, plural, one {# item} other {# items}}') // ['name', 'count']
+ */
+export function getMessageArguments(message: string): string[] {
+  const names = new Set<string>();
+
+  const visit = (nodes: MessageNode[]) => {
+    for (const node of nodes) {
+      if (typeof node === 'string' || node.type === 'pound') continue;
+      names.add(node.name);
+      if (node.type === 'plural' || node.type === 'select') {
+        for (const branch of Object.values(node.options)) visit(branch);
+      }
+    }
+  };
+
+  if (message.includes('{')) visit(parseMessage(message));
+  return [...names];
+}
@@ -10,6 +10,7 @@ export {
   translations,
   localePreference,
   localeLoading,
+  loadedNamespaces,
 
   // Store manipulation
   initLocale,
@@ -17,14 +18,76 @@ export {
   setTranslations,
   getLocale,
   getTranslations,
+  loadNamespace,
+  setNamespaceLoader,
 
   // Translation functions
   t,
   tc,
 
+  // Formatting functions (and reactive variants)
+  n,
+  nc,
+  d,
+  dc,
+  rt,
+  rtc,
+  list,
+  listc,
+  displayName,
+  displayNamec,
+
   // Utilities (for framework packages to reuse)
   getNestedValue,
   interpolate,
+  setLocaleToBCP47,
+  getBCP47,
+  setLocaleDirections,
+  applyDocumentLocale,
 } from './store';
 
-export type { TranslationLoader } from './store';
+export { translateWith } from './translate';
+export type { RenderContext } from './translate';
+export { formatMessage } from './icu';
+export { createFormatters, setFormatPresets } from './format';
+
+export { normalizeNamespaces, mergeTranslations } from './namespaces';
+export { getI18nContext, runWithI18nContext, setContextStorage, resolveRenderContext } from './context';
+export {
+  setMissingKeyStrategy,
+  setMissingKeyHandler,
+  setFallbackTranslations,
+  enableMissingKeyBeacon,
+  flushMissingKeys,
+  handleMissingKey,
+} from './missing';
+export { pseudoLocalize, pseudoLocalizeTranslations } from './pseudo';
+export { compiledHelpers, formatCompiled } from './compiled';
+export { setLocaleDomains, matchDomain, getDomainLocale, getLocaleDomain } from './domains';
+export {
+  setPrefixRouting,
+  getPrefixRouting,
+  matchRoute,
+  isPrefixedRoute,
+  splitLocalePrefix,
+  localizePath,
+} from './routing';
+export { getLocaleUrl, getLocaleAlternates, toOpenGraphLocale } from './seo';
+export type { LocaleUrlOptions, LocaleAlternatesOptions, LocaleAlternate } from './seo';
+
+export type { TranslationLoader, NamespaceLoader } from './store';
+export type {
+  FormatPresets,
+  Formatters,
+  EzI18nContext,
+  ContextStorage,
+  MissingKeyStrategy,
+  MissingKeySource,
+  MissingKeyContext,
+  MissingKeyHandler,
+  MissingKeyBeaconOptions,
+  PseudoLocalizeOptions,
+  CompiledMessage,
+  CompiledMessages,
+  PrefixRouting,
+} from '../types';
@@ -0,0 +1,185 @@
+/**
+ * Missing translation handling
+ *
+ * The strategy, custom handler and beacon live on globalThis so the middleware
+ * bundle, the runtime and the framework packages all share them.
+ */
+import type {
+  MissingKeyBeaconOptions,
+  MissingKeyContext,
+  MissingKeyHandler,
+  MissingKeySource,
+  MissingKeyState,
+  MissingKeyStrategy,
+} from '../types';
+import { formatMessage } from './icu';
+import { getI18nContext } from './context';
+
+function getState(): MissingKeyState {
+  return (globalThis.__EZ_I18N_MISSING__ ??= {
+    strategy: 'key',
+    handler: null,
+    fallbackTranslations: null,
+    beacon: null,
+  });
+}
+
+function lookup(trans: Record<string, unknown> | null | undefined, key: string): unknown {
+  let value: unknown = trans;
+  for (const part of key.split('.')) {
+    if (value == null || typeof value !== 'object') return undefined;
+    value = (value as Record<string, unknown>)[part];
+  }
+  return value;
+}
+
+/**
+ * Set what t() returns for a missing key ('key', 'fallback', 'empty' or 'throw')
+ * Called by the ez-i18n:runtime virtual module, EzI18nHead and the middleware.
+ */
+export function setMissingKeyStrategy(strategy: MissingKeyStrategy): void {
+  getState().strategy = strategy;
+}
+
+/**
+ * Register a custom missing key handler (null to remove it).
+ * When it returns a string, that string is used as the translation;
+ * otherwise the configured strategy applies.
+ *
+ * @example
+ * setMissingKeyHandler((key, locale, { source }) => {
+ *   Sentry.captureMessage(`Missing ${locale} translation: ${key} (${source})`);
+ * });
+ */
+export function setMissingKeyHandler(handler: MissingKeyHandler | null): void {
+  getState().handler = handler;
+}
+
+/**
+ * Register the defaultLocale translations used by the 'fallback' strategy in the browser
+ * (on the server the middleware puts them in the request context)
+ */
+export function setFallbackTranslations(trans: Record<string, unknown> | null): void {
+  getState().fallbackTranslations = trans;
+}
+
+/**
+ * Create a beacon that deduplicates missing keys and POSTs them in batches
+ */
+function createBeacon({ endpoint, batchSize = 20, flushInterval = 5000 }: MissingKeyBeaconOptions): NonNullable<MissingKeyState['beacon']> {
+  const seen = new Set<string>();
+  let queue: Array<{ key: string; locale: string; source: MissingKeySource; url?: string }> = [];
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  function flush(): void {
+    clearTimeout(timer);
+    timer = undefined;
+    if (queue.length === 0) return;
+
+    const body = JSON.stringify({ missing: queue });
+    queue = [];
+
+    if (typeof navigator !== 'undefined' && navigator.sendBeacon?.(endpoint, new Blob([body], { type: 'application/json' }))) {
+      return;
+    }
+    fetch(endpoint, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body,
+      keepalive: true,
+    }).catch(() => {
+      // Reporting is best-effort
+    });
+  }
+
+  // Send what's left before the page goes away
+  if (typeof document !== 'undefined') {
+    document.addEventListener('visibilitychange', () => {
+      if (document.visibilityState === 'hidden') flush();
+    });
+  }
+
+  return {
+    report(key, locale, source) {
+      const id = `${locale}\0${key}`;
+      if (seen.has(id)) return;
+      seen.add(id);
+
+      queue.push({
+        key,
+        locale,
+        source,
+        url: typeof location !== 'undefined' ? location.pathname : undefined,
+      });
+      if (queue.length >= batchSize) {
+        flush();
+      } else {
+        timer ??= setTimeout(flush, flushInterval);
+      }
+    },
+    flush,
+  };
+}
+
+/**
+ * Report missing keys to an endpoint (null to stop reporting)
+ * Called by the ez-i18n:runtime virtual module, EzI18nHead and the middleware.
+ */
+export function enableMissingKeyBeacon(options: string | MissingKeyBeaconOptions | null): void {
+  const state = getState();
+  state.beacon?.flush();
+  if (!options) {
+    state.beacon = null;
+    return;
+  }
+  const resolved = typeof options === 'string' ? { endpoint: options } : options;
+  state.beacon = createBeacon(resolved);
+}
+
+/**
+ * Send queued missing key reports immediately
+ */
+export function flushMissingKeys(): void {
+  getState().beacon?.flush();
+}
+
+/**
+ * Resolve the value for a missing key: report it, run the custom handler,
+ * then apply the configured strategy.
+ * Used by t(), tc(), Astro.locals.t and the framework packages.
+ *
+ * @param bcp47 - BCP47 tag used to format the fallback value (defaults to `locale`)
+ */
+export function handleMissingKey(
+  key: string,
+  locale: string,
+  context: MissingKeyContext,
+  bcp47: string = locale
+): string {
+  const state = getState();
+
+  if (typeof import.meta !== 'undefined' && import.meta.env?.DEV) {
+    console.warn('[ez-i18n] Missing translation:', key);
+  }
+  state.beacon?.report(key, locale, context.source);
+
+  if (state.handler) {
+    const result = state.handler(key, locale, context);
+    if (typeof result === 'string') return result;
+  }
+
+  switch (state.strategy) {
+    case 'empty':
+      return '';
+    case 'throw':
+      throw new Error(`[ez-i18n] Missing translation: "${key}" (${locale})`);
+    case 'fallback': {
+      const fallbackTranslations = getI18nContext()?.fallbackTranslations ?? state.fallbackTranslations;
+      const value = lookup(fallbackTranslations, key);
+      if (typeof value !== 'string') return key;
+      return context.params ? formatMessage(value, context.params, bcp47) : value;
+    }
+    default:
+      return key;
+  }
+}
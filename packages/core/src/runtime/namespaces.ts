@@ -0,0 +1,61 @@
+/**
+ * Namespace helpers shared by the runtime store and the middleware
+ *
+ * A namespace is a dot-notation key prefix (e.g. 'auth' or 'auth.login').
+ * Patterns like 'auth.*' are accepted and normalized to 'auth'.
+ */
+
+const FORBIDDEN_KEYS = new Set(['__proto__', 'constructor', 'prototype']);
+
+/**
+ * Normalize namespace patterns: 'auth.*' → 'auth', drops empty entries and duplicates
+ */
+export function normalizeNamespaces(namespaces: string | string[]): string[] {
+  const list = Array.isArray(namespaces) ? namespaces : [namespaces];
+  const normalized = list
+    .map((ns) => ns.trim().replace(/\.?\*+$/, ''))
+    .filter(Boolean);
+  return [...new Set(normalized)];
+}
+
+/**
+ * Check if a namespace is already covered by the loaded namespaces
+ * (e.g. 'auth.login' is covered by 'auth')
+ */
+export function isNamespaceLoaded(loaded: string[], namespace: string): boolean {
+  return loaded.some((ns) => namespace === ns || namespace.startsWith(ns + '.'));
+}
+
+/**
+ * Deep merge translations into a new object (arrays and primitives from `source` win)
+ */
+export function mergeTranslations(
+  target: Record<string, unknown>,
+  source: Record<string, unknown>
+): Record<string, unknown> {
+  const result: Record<string, unknown> = { ...target };
+
+  for (const key of Object.keys(source)) {
+    if (FORBIDDEN_KEYS.has(key)) continue;
+    const targetVal = result[key];
+    const sourceVal = source[key];
+
+    if (
+      sourceVal !== null &&
+      typeof sourceVal === 'object' &&
+      !Array.isArray(sourceVal) &&
+      targetVal !== null &&
+      typeof targetVal === 'object' &&
+      !Array.isArray(targetVal)
+    ) {
+      result[key] = mergeTranslations(
+        targetVal as Record<string, unknown>,
+        sourceVal as Record<string, unknown>
+      );
+    } else {
+      result[key] = sourceVal;
+    }
+  }
+
+  return result;
+}
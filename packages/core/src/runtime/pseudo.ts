@@ -0,0 +1,165 @@
+/**
+ * Pseudo-localization
+ *
+ * Turns `defaultLocale` messages into accented, padded, bracketed text so
+ * untranslated strings, truncation and hard-coded layout widths stand out:
+ * "Hello {name}" → "[Ĥéļļö {name}~~]"
+ */
+import type { PseudoLocalizeOptions } from '../types';
+
+const ACCENTS: Record<string, string> = {
+  a: 'á', b: 'ƀ', c: 'ç', d: 'ð', e: 'é', f: 'ƒ', g: 'ĝ', h: 'ĥ', i: 'í', j: 'ĵ', k: 'ķ', l: 'ļ', m: 'ɱ',
+  n: 'ñ', o: 'ö', p: 'þ', q: 'ǫ', r: 'ŕ', s: 'š', t: 'ţ', u: 'û', v: 'ṽ', w: 'ŵ', x: 'ẋ', y: 'ý', z: 'ž',
+  A: 'Å', B: 'Ɓ', C: 'Ç', D: 'Ð', E: 'É', F: 'Ƒ', G: 'Ĝ', H: 'Ĥ', I: 'Î', J: 'Ĵ', K: 'Ķ', L: 'Ļ', M: 'Ṁ',
+  N: 'Ñ', O: 'Ö', P: 'Þ', Q: 'Ǫ', R: 'Ŕ', S: 'Š', T: 'Ţ', U: 'Û', V: 'Ṽ', W: 'Ŵ', X: 'Ẋ', Y: 'Ý', Z: 'Ž',
+};
+
+/** Right-to-left override / pop directional formatting */
+const RLO = '\u202E';
+const PDF = '\u202C';
+
+const PLURAL_HEADER = /^\s*[\w.-]+\s*,\s*(plural|selectordinal|select)\s*,/;
+const TAG = /^<\/?[a-zA-Z][^<>]*>/;
+
+/**
+ * Find the index of the brace closing the one at `start` (-1 if unbalanced)
+ */
+function findClosingBrace(message: string, start: number): number {
+  let depth = 0;
+  for (let i = start; i < message.length; i++) {
+    if (message[i] === '{') depth++;
+    else if (message[i] === '}' && --depth === 0) return i;
+  }
+  return -1;
+}
+
+/**
+ * Pseudo-localize the branches of a plural/select argument body,
+ * e.g. `one {# item} other {# items}`
+ */
+function transformBranches(body: string, options: Required<PseudoLocalizeOptions>, isPlural: boolean): string {
+  let result = '';
+  let i = 0;
+  while (i < body.length) {
+    const open = body.indexOf('{', i);
+    if (open === -1) break;
+    const close = findClosingBrace(body, open);
+    if (close === -1) break;
+    result += body.slice(i, open + 1) + transformMessage(body.slice(open + 1, close), options, isPlural) + '}';
+    i = close + 1;
+  }
+  return result + body.slice(i);
+}
+
+/**
+ * Accent and pad the text of a message, leaving placeholders, plural/select
+ * syntax, `#`, quoted literals, HTML tags and `[i18n:...]` tokens untouched
+ */
+function transformMessage(message: string, options: Required<PseudoLocalizeOptions>, inPlural: boolean): string {
+  let result = '';
+  let run = '';
+  let letters = 0;
+
+  const flush = () => {
+    if (!run) return;
+    result += options.rtl ? RLO + run + PDF : run;
+    run = '';
+  };
+  const keep = (token: string) => {
+    flush();
+    result += token;
+  };
+
+  let i = 0;
+  while (i < message.length) {
+    const char = message[i];
+    const rest = message.slice(i);
+
+    if (rest.startsWith('[i18n:')) {
+      const end = message.indexOf(']', i);
+      const token = end === -1 ? rest : message.slice(i, end + 1);
+      keep(token);
+      i += token.length;
+      continue;
+    }
+
+    if (char === '{') {
+      const close = findClosingBrace(message, i);
+      if (close === -1) {
+        keep(rest);
+        break;
+      }
+      const inner = message.slice(i + 1, close);
+      const header = PLURAL_HEADER.exec(inner);
+      keep(header
+        ? '{' + header[0] + transformBranches(inner.slice(header[0].length), options, header[1] !== 'select') + '}'
+        : '{' + inner + '}');
+      i = close + 1;
+      continue;
+    }
+
+    // '' is a literal quote, '{...}' an escaped literal (other apostrophes are plain text)
+    const next = message[i + 1];
+    if (char === "'" && (next === "'" || next === '{' || next === '}' || (next === '#' && inPlural))) {
+      const end = message.indexOf("'", i + 1);
+      const token = next === "'" ? "''" : end === -1 ? rest : message.slice(i, end + 1);
+      keep(token);
+      i += token.length;
+      continue;
+    }
+
+    const tag = char === '<' ? TAG.exec(rest) : null;
+    if (tag) {
+      keep(tag[0]);
+      i += tag[0].length;
+      continue;
+    }
+
+    if (char === '#' && inPlural) {
+      keep(char);
+      i++;
+      continue;
+    }
+
+    run += ACCENTS[char] ?? char;
+    if (/\S/.test(char)) letters++;
+    i++;
+  }
+  flush();
+
+  return result + '~'.repeat(Math.ceil(letters * options.expansion));
+}
+
+/**
+ * Pseudo-localize a single message
+ *
+ * @example
+ * pseudoLocalize('Hello {name}!') // '[Ĥéļļö {name}!~~~]'
+ * pseudoLocalize('{count, plural, one {# item} other {# items}}')
+ * // '[{count, plural, one {# íţéɱ~~} other {# íţéɱš~~}}]'
+ */
+export function pseudoLocalize(message: string, options: PseudoLocalizeOptions = {}): string {
+  if (!message) return message;
+  const resolved = { expansion: options.expansion ?? 0.4, rtl: options.rtl ?? false };
+  return `[${transformMessage(message, resolved, false)}]`;
+}
+
+/**
+ * Pseudo-localize every message in a translation tree
+ */
+export function pseudoLocalizeTranslations<T>(translations: T, options: PseudoLocalizeOptions = {}): T {
+  if (typeof translations === 'string') {
+    return pseudoLocalize(translations, options) as T;
+  }
+  if (Array.isArray(translations)) {
+    return translations.map((value) => pseudoLocalizeTranslations(value, options)) as T;
+  }
+  if (translations && typeof translations === 'object') {
+    const result: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(translations)) {
+      result[key] = pseudoLocalizeTranslations(value, options);
+    }
+    return result as T;
+  }
+  return translations;
+}
@@ -0,0 +1,126 @@
+/**
+ * URL-prefix routing
+ *
+ * With `prefixRoutes`, matching routes are served under `/{locale}/` while
+ * the rest of the app stays cookie-driven. The routing config lives on
+ * globalThis so the middleware bundle and the runtime share it.
+ */
+import type { PrefixRouting } from '../types';
+
+/** Compiled route patterns */
+const patternCache = new Map<string, RegExp>();
+
+/**
+ * Register the prefix routing config (called by the middleware and the ez-i18n:runtime module)
+ */
+export function setPrefixRouting(routing: PrefixRouting | null): void {
+  globalThis.__EZ_I18N_ROUTING__ = routing ?? undefined;
+}
+
+/**
+ * Get the registered prefix routing config (undefined = cookie-only)
+ */
+export function getPrefixRouting(): PrefixRouting | undefined {
+  return globalThis.__EZ_I18N_ROUTING__;
+}
+
+function compilePattern(pattern: string): RegExp {
+  let regex = patternCache.get(pattern);
+  if (!regex) {
+    const segments = pattern.replace(/^\/+|\/+$/g, '').split('/').filter(Boolean);
+    const source = segments
+      .map((segment) => {
+        if (segment === '**') return '(?:/[^/]+)*';
+        const escaped = segment
+          .split('*')
+          .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+          .join('[^/]*');
+        return '/' + escaped;
+      })
+      .join('');
+    regex = new RegExp(`^${source}/?$`);
+    patternCache.set(pattern, regex);
+  }
+  return regex;
+}
+
+/**
+ * Check if a pathname matches a route pattern
+ * (`*` matches one segment, `**` any number of segments)
+ *
+ * @example
+ * matchRoute('/blog/2024/hello', '/blog/**') // true
+ * matchRoute('/blog', '/blog/**')            // true
+ * matchRoute('/app/settings', '/blog/**')    // false
+ */
+export function matchRoute(pathname: string, pattern: string): boolean {
+  const path = pathname === '/' ? '' : pathname.replace(/\/+$/, '');
+  return compilePattern(pattern).test(path);
+}
+
+/**
+ * Split the Astro `base` off a pathname
+ *
+ * @example
+ * splitBase('/docs/es/pricing', '/docs/') // ['/docs', '/es/pricing']
+ */
+function splitBase(pathname: string, base = '/'): [string, string] {
+  const root = base.replace(/\/+$/, '');
+  if (root && (pathname === root || pathname.startsWith(root + '/'))) {
+    return [root, pathname.slice(root.length) || '/'];
+  }
+  return ['', pathname];
+}
+
+/**
+ * Check if a pathname (without locale prefix) is served under `/{locale}/`
+ * (route patterns are relative to the Astro `base`)
+ */
+export function isPrefixedRoute(pathname: string, routing = getPrefixRouting()): boolean {
+  const [, path] = splitBase(pathname, routing?.base);
+  return Boolean(routing?.routes.some((pattern) => matchRoute(path, pattern)));
+}
+
+/**
+ * Split a leading locale segment (after the Astro `base`) off a pathname
+ *
+ * @example
+ * splitLocalePrefix('/es/pricing', ['en', 'es'])           // { locale: 'es', pathname: '/pricing' }
+ * splitLocalePrefix('/pricing', ['en', 'es'])              // { locale: undefined, pathname: '/pricing' }
+ * splitLocalePrefix('/docs/es/pricing', ['es'], '/docs/') // { locale: 'es', pathname: '/docs/pricing' }
+ */
+export function splitLocalePrefix(
+  pathname: string,
+  locales: readonly string[],
+  base?: string
+): { locale: string | undefined; pathname: string } {
+  const [root, path] = splitBase(pathname, base);
+  const match = /^\/([^/]+)(\/.*)?$/.exec(path);
+  if (match && locales.includes(match[1])) {
+    return { locale: match[1], pathname: root + (match[2] || '/') };
+  }
+  return { locale: undefined, pathname };
+}
+
+/**
+ * Get the URL of a path for a locale: `/{locale}/...` on prefixed routes,
+ * the unprefixed path everywhere else (and for `defaultLocale` unless
+ * `prefixDefaultLocale` is set). Existing locale prefixes are replaced.
+ *
+ * @example
+ * // prefixRoutes: ['/pricing', '/blog/**']
+ * localizePath('/pricing', 'es')       // '/es/pricing'
+ * localizePath('/es/blog?page=2', 'fr') // '/fr/blog?page=2'
+ * localizePath('/pricing', 'en')       // '/pricing' (defaultLocale)
+ * localizePath('/app/settings', 'es')  // '/app/settings' (not a prefixed route)
+ */
+export function localizePath(path: string, locale: string, routing = getPrefixRouting()): string {
+  const [, pathname = '/', suffix = ''] = /^([^?#]*)(.*)$/.exec(path) ?? [];
+  if (!routing) return path;
+
+  const { pathname: unprefixed } = splitLocalePrefix(pathname || '/', routing.locales, routing.base);
+  if (!isPrefixedRoute(unprefixed, routing)) return unprefixed + suffix;
+  if (locale === routing.defaultLocale && !routing.prefixDefaultLocale) return unprefixed + suffix;
+  const [root, rest] = splitBase(unprefixed, routing.base);
+  return `${root}/${locale}${rest}` + suffix;
+}
@@ -0,0 +1,107 @@
+/**
+ * Locale URLs for SEO tags
+ *
+ * Builds the hreflang alternates and canonical URL of a page for the active
+ * routing mode: the locale's domain (`domains`), its `/{locale}/` URL on
+ * prefixed routes (`prefixRoutes`), or `?lang=` everywhere else (the
+ * middleware renders `?lang=` URLs in that locale).
+ */
+import type { PrefixRouting } from '../types';
+import { getLocaleDomain } from './domains';
+import { splitLocalePrefix, isPrefixedRoute, localizePath } from './routing';
+
+export interface LocaleUrlOptions {
+  /** Hostname or pattern → locale */
+  domains?: Record<string, string>;
+  /** Prefix routing config (undefined = cookie-only) */
+  routing?: PrefixRouting;
+}
+
+export interface LocaleAlternatesOptions extends LocaleUrlOptions {
+  /** Locales to list (e.g. without pseudo-locales) */
+  locales: readonly string[];
+  defaultLocale: string;
+  /** Locale code → BCP47 tag used as the hreflang */
+  localeToBCP47?: Record<string, string>;
+}
+
+export interface LocaleAlternate {
+  /** Locale code, or 'x-default' */
+  locale: string;
+  hreflang: string;
+  href: string;
+}
+
+/**
+ * Check if a page has a URL of its own for a locale (a mapped domain or a
+ * `/{locale}/` URL), rather than a `?lang=` URL
+ */
+export function hasLocaleUrl(url: URL, locale: string, options: LocaleUrlOptions): boolean {
+  if (options.domains && getLocaleDomain(locale, options.domains)) return true;
+  const { routing } = options;
+  if (!routing) return false;
+  return isPrefixedRoute(splitLocalePrefix(url.pathname, routing.locales, routing.base).pathname, routing);
+}
+
+/**
+ * Get the URL of a page in a locale (or the locale-neutral URL when `locale` is null)
+ *
+ * @example
+ * getLocaleUrl(new URL('https://example.com/about'), 'es') // 'https://example.com/about?lang=es'
+ * // prefixRoutes: ['/about']
+ * getLocaleUrl(new URL('https://example.com/about'), 'es', { routing }) // 'https://example.com/es/about'
+ */
+export function getLocaleUrl(url: URL, locale: string | null, options: LocaleUrlOptions = {}): string {
+  const target = new URL(url);
+  target.searchParams.delete('lang');
+  const { routing } = options;
+
+  const domain = locale && options.domains ? getLocaleDomain(locale, options.domains) : undefined;
+  if (domain) target.hostname = domain;
+
+  if (routing) {
+    const { pathname } = splitLocalePrefix(target.pathname, routing.locales, routing.base);
+    if (isPrefixedRoute(pathname, routing)) {
+      target.pathname = localizePath(pathname, locale ?? routing.defaultLocale, routing);
+      return target.href;
+    }
+    target.pathname = pathname;
+  }
+
+  if (locale && !domain) target.searchParams.set('lang', locale);
+  return target.href;
+}
+
+/**
+ * Get the hreflang alternates of a page: one per locale plus `x-default`
+ * (the defaultLocale domain, or the URL without a locale)
+ */
+export function getLocaleAlternates(url: URL, options: LocaleAlternatesOptions): LocaleAlternate[] {
+  const alternates = options.locales.map((locale) => ({
+    locale,
+    hreflang: options.localeToBCP47?.[locale] ?? locale,
+    href: getLocaleUrl(url, locale, options),
+  }));
+
+  const defaultDomain = options.domains ? getLocaleDomain(options.defaultLocale, options.domains) : undefined;
+  alternates.push({
+    locale: 'x-default',
+    hreflang: 'x-default',
+    href: getLocaleUrl(url, defaultDomain ? options.defaultLocale : null, options),
+  });
+
+  return alternates;
+}
+
+/**
+ * Convert a BCP47 tag to the Open Graph locale format
+ *
+ * @example
+ * toOpenGraphLocale('pt-BR') // 'pt_BR'
+ * toOpenGraphLocale('zh-Hant-TW') // 'zh_TW'
+ */
+export function toOpenGraphLocale(bcp47: string): string {
+  const [language, ...subtags] = bcp47.split('-');
+  const region = subtags.find((subtag) => /^([A-Za-z]{2}|\d{3})$/.test(subtag));
+  return region ? `${language.toLowerCase()}_${region.toUpperCase()}` : language.toLowerCase();
+}
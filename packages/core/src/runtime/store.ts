@@ -1,40 +1,58 @@
 import { atom, computed, type ReadableAtom } from 'nanostores';
+import type { TranslationKey, TranslateArgs, Formatters, MissingKeySource } from '../types';
 import '../types'; // Import to bring in global type declarations
+import { formatMessage } from './icu';
+import { getBCP47, translateWith, type RenderContext } from './translate';
+import { normalizeNamespaces, isNamespaceLoaded, mergeTranslations } from './namespaces';
+import { createFormatters } from './format';
+import { resolveRenderContext } from './context';
+import { getLocaleDomain } from './domains';
+import { getPrefixRouting, isPrefixedRoute, splitLocalePrefix, localizePath } from './routing';
 
 // ============================================================================
 // Utility Functions (shared across all framework packages)
 // ============================================================================
 
+export { getNestedValue, setLocaleToBCP47, getBCP47 } from './translate';
+
 /**
- * Get nested value from object using dot notation
- * @example getNestedValue({ a: { b: 'hello' } }, 'a.b') // 'hello'
+ * Locale code → text direction mapping (from ez-i18n:config)
  */
-export function getNestedValue(obj: Record<string, unknown>, path: string): unknown {
-  const keys = path.split('.');
-  let value: unknown = obj;
+let localeDirections: Record<string, 'ltr' | 'rtl'> = {};
 
-  for (const key of keys) {
-    if (value == null || typeof value !== 'object') {
-      return undefined;
-    }
-    value = (value as Record<string, unknown>)[key];
-  }
+/**
+ * Register the locale → text direction mapping used for `<html dir>`
+ * Called by the ez-i18n:runtime virtual module and EzI18nHead.
+ */
+export function setLocaleDirections(mapping: Record<string, 'ltr' | 'rtl'>): void {
+  localeDirections = { ...localeDirections, ...mapping };
+}
 
-  return value;
+/**
+ * Set `lang` (BCP47 tag) and `dir` on `<html>` for a locale
+ * (dir is left as it is for locales without a registered direction)
+ */
+export function applyDocumentLocale(locale: string): void {
+  if (typeof document === 'undefined') return;
+  const root = document.documentElement;
+  root.lang = getBCP47(locale);
+  const dir = localeDirections[locale];
+  if (dir) root.dir = dir;
 }
 
 /**
- * Interpolate params into string using {placeholder} syntax
+ * Interpolate params into string using {placeholder} and ICU plural/select syntax
+ * @param locale - Locale code for plural rules (defaults to the current locale)
  * @example interpolate('Hello {name}!', { name: 'World' }) // 'Hello World!'
+ * @example interpolate('{count, plural, one {# item} other {# items}}', { count: 2 }) // '2 items'
  */
 export function interpolate(
   str: string,
-  params?: Record<string, string | number>
+  params?: Record<string, string | number>,
+  locale?: string
 ): string {
   if (!params) return str;
-  return str.replace(/\{(\w+)\}/g, (match, key) => {
-    return key in params ? String(params[key]) : match;
-  });
+  return formatMessage(str, params, getBCP47(locale ?? effectiveLocale.get()));
 }
 
 /**
@@ -68,15 +86,26 @@ export const translations = atom<Record<string, unknown>>({});
  */
 export const localeLoading = atom<boolean>(false);
 
+/**
+ * Namespaces loaded for the current locale (null = the whole locale is loaded)
+ */
+export const loadedNamespaces = atom<string[] | null>(null);
+
 /**
  * Initialize locale from server-provided value
  * Called during hydration to sync server and client state
+ * @param namespaces - Namespaces included in `trans` (omit when the whole locale was loaded)
  */
-export function initLocale(locale: string, trans?: Record<string, unknown>): void {
+export function initLocale(
+  locale: string,
+  trans?: Record<string, unknown>,
+  namespaces?: string[]
+): void {
   serverLocale.set(locale);
   localePreference.set(locale);
   if (trans) {
     translations.set(trans);
+    loadedNamespaces.set(namespaces ?? null);
   }
 }
 
@@ -90,9 +119,67 @@ export function setTranslations(trans: Record<string, unknown>): void {
 /** Type for translation loader function */
 export type TranslationLoader = () => Promise<{ default?: Record<string, unknown> } | Record<string, unknown>>;
 
+/**
+ * Type for namespace loader function (loadTranslations from ez-i18n:translations)
+ * Called without namespaces to load the whole locale.
+ */
+export type NamespaceLoader = (locale: string, namespaces?: string[]) => Promise<Record<string, unknown>>;
+
+let namespaceLoader: NamespaceLoader | null = null;
+
+/** Incremented by every setLocale() so an older switch can't overwrite a newer one */
+let localeSwitch = 0;
+
+/**
+ * Register the loader used by loadNamespace() and setLocale()
+ * Called by the ez-i18n:runtime virtual module and EzI18nHead.
+ */
+export function setNamespaceLoader(loader: NamespaceLoader): void {
+  namespaceLoader = loader;
+}
+
+/**
+ * Load additional translation namespaces on demand and merge them into the translations store.
+ * Namespaces that are already loaded are skipped.
+ *
+ * @param namespaces - Namespace(s) to load, e.g. 'auth' or ['auth.*', 'settings']
+ * @param locale - Locale to load for (defaults to the current locale)
+ *
+ * @example
+ * await loadNamespace(['checkout', 'errors.*']);
+ */
+export async function loadNamespace(
+  namespaces: string | string[],
+  locale: string = effectiveLocale.get()
+): Promise<void> {
+  const loaded = loadedNamespaces.get();
+  // The whole locale is already loaded
+  if (loaded === null && Object.keys(translations.get()).length > 0) return;
+
+  const missing = normalizeNamespaces(namespaces).filter(
+    (ns) => !loaded || !isNamespaceLoaded(loaded, ns)
+  );
+  if (missing.length === 0) return;
+
+  if (!namespaceLoader) {
+    console.warn('[ez-i18n] loadNamespace() called before a namespace loader was registered');
+    return;
+  }
+
+  const trans = await namespaceLoader(locale, missing);
+
+  // Ignore results for a locale that is no longer active
+  if (locale !== effectiveLocale.get()) return;
+
+  translations.set(mergeTranslations(translations.get(), trans));
+  loadedNamespaces.set([...(loadedNamespaces.get() ?? []), ...missing]);
+}
+
 /**
  * Change locale and update cookie
- * Optionally loads new translations dynamically
+ * Loads the new locale's translations (the namespaces currently loaded) with
+ * `loadTranslations`, or the loader registered from ez-i18n:translations,
+ * and updates `<html lang>` and `dir`
  * @param locale - New locale code
  * @param options - Options object or cookie name for backwards compatibility
  */
@@ -112,31 +199,51 @@ export async function setLocale(
     : options;
   const { cookieName = 'ez-locale', loadTranslations, redirect, beforeRedirect } = opts;
 
-  // If redirect mode, navigate with ?lang= param (middleware handles cookie + redirect)
+  // If redirect mode, navigate to the locale's domain (with `domains`), its
+  // /{locale}/ URL (with `prefixRoutes`) or with ?lang= param (middleware sets the cookie)
   if (redirect && typeof window !== 'undefined') {
     // Run beforeRedirect callback if provided (e.g., save preferences to backend)
     if (beforeRedirect) {
       await beforeRedirect(locale);
     }
     const url = new URL(window.location.href);
-    url.searchParams.set('lang', locale);
+    const domain = getLocaleDomain(locale);
+    const routing = getPrefixRouting();
+    if (domain && domain !== url.hostname) {
+      url.hostname = domain;
+    } else if (routing && isPrefixedRoute(splitLocalePrefix(url.pathname, routing.locales, routing.base).pathname, routing)) {
+      // The /{locale}/ URL sets the cookie
+      url.pathname = localizePath(url.pathname, locale);
+    } else {
+      url.searchParams.set('lang', locale);
+    }
     window.location.href = url.toString();
     return; // Page will reload, middleware sets cookie
   }
 
   localeLoading.set(true);
+  const current = ++localeSwitch;
 
   try {
-    // Load new translations if loader provided
+    // Load new translations with the given loader, or the registered one
     if (loadTranslations) {
       const mod = await loadTranslations();
+      if (current !== localeSwitch) return;
       const trans = 'default' in mod ? mod.default : mod;
       translations.set(trans as Record<string, unknown>);
+      loadedNamespaces.set(null);
+    } else if (namespaceLoader && locale !== effectiveLocale.get()) {
+      const namespaces = loadedNamespaces.get() ?? undefined;
+      const trans = await namespaceLoader(locale, namespaces);
+      if (current !== localeSwitch) return;
+      translations.set(trans);
+      loadedNamespaces.set(namespaces ?? null);
     }
 
     // Update stores
     localePreference.set(locale);
     serverLocale.set(locale);
+    applyDocumentLocale(locale);
 
     // Update cookie
     if (typeof document !== 'undefined') {
@@ -147,13 +254,13 @@ export async function setLocale(
     if (typeof document !== 'undefined') {
       document.dispatchEvent(
         new CustomEvent('ez-i18n:locale-changed', {
-          detail: { locale },
+          detail: { locale, translations: translations.get() },
           bubbles: true,
         })
       );
     }
   } finally {
-    localeLoading.set(false);
+    if (current === localeSwitch) localeLoading.set(false);
   }
 }
 
@@ -175,79 +282,13 @@ export function getTranslations(): Record<string, unknown> {
 // Translation Functions
 // ============================================================================
 
-const embeddedI18nPattern = /\[i18n:([^\]|]+)(?:\|([^\]]+))?]/g;
-
-function parseEmbeddedParams(paramString?: string): Record<string, string> {
-  if (!paramString) return {};
-  const params = new URLSearchParams(paramString);
-  const result: Record<string, string> = {};
-  for (const [key, value] of params) {
-    result[key] = value;
-  }
-  return result;
-}
-
-function mergeEmbeddedParams(
-  embeddedParams: Record<string, string>,
-  overrideParams?: Record<string, string | number>
-): Record<string, string | number> | undefined {
-  const embeddedKeys = Object.keys(embeddedParams);
-  if (embeddedKeys.length === 0) return undefined;
-  const merged: Record<string, string | number> = { ...embeddedParams };
-  if (overrideParams) {
-    for (const key of embeddedKeys) {
-      if (key in overrideParams) {
-        merged[key] = overrideParams[key];
-      }
-    }
-  }
-  return merged;
-}
-
-function formatEmbeddedString(
-  str: string,
-  overrideParams: Record<string, string | number> | undefined,
-  translateKey: (key: string, params?: Record<string, string | number>) => string
-): string {
-  if (!str.includes('[i18n:')) return str;
-  return str.replace(embeddedI18nPattern, (_match, embeddedKey, paramString) => {
-    const embeddedParams = parseEmbeddedParams(paramString);
-    const mergedParams = mergeEmbeddedParams(embeddedParams, overrideParams);
-    return translateKey(embeddedKey, mergedParams);
-  });
-}
-
-function translateKeyWithTranslations(
-  trans: Record<string, unknown>,
-  key: string,
-  params?: Record<string, string | number>
-): string {
-  const value = getNestedValue(trans, key);
-
-  if (typeof value !== 'string') {
-    if (typeof import.meta !== 'undefined' && import.meta.env?.DEV) {
-      console.warn('[ez-i18n] Missing translation:', key);
-    }
-    return key;
-  }
-
-  return interpolate(value, params);
-}
-
 /**
- * Get translations, checking SSR global context as fallback
- * This handles cross-bundle SSR where middleware and Vue have different store instances
+ * Get translations and locale, checking the request/page context as fallback
+ * This handles concurrent SSR and cross-bundle setups where middleware and
+ * framework packages have different store instances
  */
-function getTranslationsWithSSRFallback(): Record<string, unknown> {
-  const trans = translations.get();
-  // If store is empty, check global context (set by middleware/EzI18nHead)
-  if (Object.keys(trans).length === 0) {
-    const ssrTrans = globalThis.__EZ_I18N__?.translations;
-    if (ssrTrans) {
-      return ssrTrans;
-    }
-  }
-  return trans;
+function getRenderContext(): RenderContext {
+  return resolveRenderContext(translations.get(), effectiveLocale.get());
 }
 
 /**
@@ -258,21 +299,14 @@ function getTranslationsWithSSRFallback(): Record<string, unknown> {
  * const message = t('welcome.title');
  * const greeting = t('welcome.hello', { name: 'World' });
  */
-export function t(key: string, params?: Record<string, string | number>): string {
-  const trans = getTranslationsWithSSRFallback();
-  const translate = (lookupKey: string, lookupParams?: Record<string, string | number>) =>
-    translateKeyWithTranslations(trans, lookupKey, lookupParams);
-
-  if (key.includes('[i18n:')) {
-    return formatEmbeddedString(key, params, translate);
-  }
-
-  return translate(key, params);
+export function t<K extends TranslationKey>(key: K, ...args: TranslateArgs<K>): string {
+  const [params] = args;
+  return translateWith(getRenderContext(), key, params, 't');
 }
 
 /**
  * Create a reactive translation computed (nanostore computed atom)
- * Returns a ReadableAtom<string> that updates when translations change.
+ * Returns a ReadableAtom<string> that updates when translations or locale change.
  *
  * Use this when you need a reactive translation that updates automatically:
  * - In Vue/React components where translations may load after initial render
@@ -289,22 +323,77 @@ export function t(key: string, params?: Record<string, string | number>): string
  * // In React (with @nanostores/react)
  * const title = useStore(tc('welcome.title'));
  */
-export function tc(
-  key: string,
-  params?: Record<string, string | number>
+export function tc<K extends TranslationKey>(
+  key: K,
+  ...args: TranslateArgs<K>
 ): ReadableAtom<string> {
-  return computed(translations, (trans) => {
-    // Use global fallback if store is empty
-    const effectiveTrans = Object.keys(trans).length === 0
-      ? (globalThis.__EZ_I18N__?.translations ?? trans)
-      : trans;
-    const translate = (lookupKey: string, lookupParams?: Record<string, string | number>) =>
-      translateKeyWithTranslations(effectiveTrans, lookupKey, lookupParams);
-
-    if (key.includes('[i18n:')) {
-      return formatEmbeddedString(key, params, translate);
-    }
+  const [params] = args;
+  // Use the request/page context on the server or while the store is empty
+  return computed([translations, effectiveLocale], (trans, locale) =>
+    translateWith(resolveRenderContext(trans, locale), key, params, 'tc')
+  );
+}
 
-    return translate(key, params);
-  });
+// ============================================================================
+// Formatting Functions
+// ============================================================================
+
+/** Formatters bound to the current locale (with the same SSR fallback as t()) */
+const formatters = createFormatters(() => getBCP47(getRenderContext().locale));
+
+/**
+ * Format a number for the current locale (non-reactive)
+ * @param format - Preset name from `formats.number` or Intl.NumberFormat options
+ * @example n(1234.5) // '1,234.5'
+ * @example n(9.99, 'currency') // '$9.99'
+ */
+export const n: Formatters['n'] = formatters.n;
+
+/**
+ * Format a date for the current locale (non-reactive)
+ * @param format - Preset name from `formats.date` or Intl.DateTimeFormat options
+ * @example d(new Date(), { dateStyle: 'medium' }) // 'Jan 5, 2025'
+ */
+export const d: Formatters['d'] = formatters.d;
+
+/**
+ * Format relative time for the current locale (non-reactive)
+ * @example rt(-3, 'day') // '3 days ago'
+ */
+export const rt: Formatters['rt'] = formatters.rt;
+
+/**
+ * Format a list for the current locale (non-reactive)
+ * @example list(['Red', 'Green', 'Blue']) // 'Red, Green, and Blue'
+ */
+export const list: Formatters['list'] = formatters.list;
+
+/**
+ * Localized display name of a language, region, script or currency code (non-reactive)
+ * @example displayName('de') // 'German'
+ * @example displayName('JP', 'region') // 'Japan'
+ */
+export const displayName: Formatters['displayName'] = formatters.displayName;
+
+/**
+ * Wrap a formatter in a computed atom that re-formats when the locale changes
+ */
+function reactive<A extends unknown[]>(format: (...args: A) => string) {
+  return (...args: A): ReadableAtom<string> =>
+    computed([translations, effectiveLocale], () => format(...args));
 }
+
+/** Reactive n() - returns a ReadableAtom<string> that updates with the locale */
+export const nc = reactive(n);
+
+/** Reactive d() - returns a ReadableAtom<string> that updates with the locale */
+export const dc = reactive(d);
+
+/** Reactive rt() - returns a ReadableAtom<string> that updates with the locale */
+export const rtc = reactive(rt);
+
+/** Reactive list() - returns a ReadableAtom<string> that updates with the locale */
+export const listc = reactive(list);
+
+/** Reactive displayName() - returns a ReadableAtom<string> that updates with the locale */
+export const displayNamec = reactive(displayName);
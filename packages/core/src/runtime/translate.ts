@@ -0,0 +1,174 @@
+/**
+ * The translation pipeline
+ *
+ * translateWith() is the one lookup behind t(), tc(), Astro.locals.t and the
+ * framework packages. This module has no store dependencies, so the middleware
+ * bundle can use it too.
+ */
+import type { EzI18nContext, MissingKeySource } from '../types';
+import { formatMessage } from './icu';
+import { handleMissingKey } from './missing';
+import { formatCompiled } from './compiled';
+
+/**
+ * Get nested value from object using dot notation
+ * @example getNestedValue({ a: { b: 'hello' } }, 'a.b') // 'hello'
+ */
+export function getNestedValue(obj: Record<string, unknown>, path: string): unknown {
+  const keys = path.split('.');
+  let value: unknown = obj;
+
+  for (const key of keys) {
+    if (value == null || typeof value !== 'object') {
+      return undefined;
+    }
+    value = (value as Record<string, unknown>)[key];
+  }
+
+  return value;
+}
+
+/**
+ * Locale code → BCP47 tag mapping (from ez-i18n:config)
+ * Used to pick the right Intl.PluralRules for ICU plural/selectordinal.
+ */
+let localeToBCP47: Record<string, string> = {};
+
+/**
+ * Register the locale → BCP47 mapping used for plural rules
+ * Called by the ez-i18n:runtime virtual module and EzI18nHead.
+ */
+export function setLocaleToBCP47(mapping: Record<string, string>): void {
+  localeToBCP47 = { ...localeToBCP47, ...mapping };
+}
+
+/**
+ * Get the BCP47 tag for a locale code (falls back to the code itself)
+ */
+export function getBCP47(locale: string): string {
+  return localeToBCP47[locale] ?? locale;
+}
+
+// ============================================================================
+// Embedded Strings
+// ============================================================================
+
+/** Embedded `[i18n:key|params]` reference (group 1: key, group 2: params) */
+export const embeddedI18nPattern = /\[i18n:([^\]|]+)(?:\|([^\]]+))?]/g;
+
+function parseEmbeddedParams(paramString?: string): Record<string, string> {
+  if (!paramString) return {};
+  const params = new URLSearchParams(paramString);
+  const result: Record<string, string> = {};
+  for (const [key, value] of params) {
+    result[key] = value;
+  }
+  return result;
+}
+
+function mergeEmbeddedParams(
+  embeddedParams: Record<string, string>,
+  overrideParams?: Record<string, string | number>
+): Record<string, string | number> | undefined {
+  const embeddedKeys = Object.keys(embeddedParams);
+  if (embeddedKeys.length === 0) return undefined;
+  const merged: Record<string, string | number> = { ...embeddedParams };
+  if (overrideParams) {
+    for (const key of embeddedKeys) {
+      if (key in overrideParams) {
+        merged[key] = overrideParams[key];
+      }
+    }
+  }
+  return merged;
+}
+
+type EmbeddedPart = string | { key: string; params: Record<string, string> };
+
+/** Parsed embedded strings keyed by source string */
+const embeddedCache = new Map<string, EmbeddedPart[]>();
+
+/**
+ * Split a string into text and `[i18n:key|params]` references (cached per string)
+ */
+function parseEmbeddedString(str: string): EmbeddedPart[] {
+  let parts = embeddedCache.get(str);
+  if (!parts) {
+    parts = [];
+    let last = 0;
+    for (const match of str.matchAll(embeddedI18nPattern)) {
+      if (match.index! > last) parts.push(str.slice(last, match.index));
+      parts.push({ key: match[1], params: parseEmbeddedParams(match[2]) });
+      last = match.index! + match[0].length;
+    }
+    if (last < str.length) parts.push(str.slice(last));
+    embeddedCache.set(str, parts);
+  }
+  return parts;
+}
+
+function formatEmbeddedString(
+  str: string,
+  overrideParams: Record<string, string | number> | undefined,
+  translateKey: (key: string, params?: Record<string, string | number>) => string
+): string {
+  if (!str.includes('[i18n:')) return str;
+  let result = '';
+  for (const part of parseEmbeddedString(str)) {
+    result += typeof part === 'string'
+      ? part
+      : translateKey(part.key, mergeEmbeddedParams(part.params, overrideParams));
+  }
+  return result;
+}
+
+/** Translations and locale to render with (see resolveRenderContext()) */
+export type RenderContext = Pick<EzI18nContext, 'translations' | 'locale' | 'namespaces' | 'messages'>;
+
+function translateKeyWithTranslations(
+  context: RenderContext,
+  key: string,
+  params: Record<string, string | number> | undefined,
+  source: MissingKeySource
+): string {
+  const { translations: trans, locale } = context;
+
+  // Precompiled messages (SSR with `precompile`)
+  const compiled = formatCompiled(context.messages, context.namespaces, key, params, getBCP47(locale));
+  if (compiled !== undefined) return compiled;
+
+  const value = getNestedValue(trans, key);
+
+  if (typeof value !== 'string') {
+    return handleMissingKey(key, locale, { source, params }, getBCP47(locale));
+  }
+
+  return params ? formatMessage(value, params, getBCP47(locale)) : value;
+}
+
+/**
+ * Translate a key in a render context: precompiled messages first, then the
+ * translations tree, then missing key handling. Strings with embedded
+ * `[i18n:key|params]` references are translated reference by reference.
+ * This is the one translation pipeline behind t(), tc(), Astro.locals.t and
+ * the framework packages (which pass their own store snapshots through
+ * resolveRenderContext(), so their components re-render on changes).
+ *
+ * @param source - Which translation function asked, reported for missing keys
+ * @example translateWith(resolveRenderContext(translations, locale), 'greeting', { name: 'Ada' }, 'react')
+ */
+export function translateWith(
+  context: RenderContext,
+  key: string,
+  params: Record<string, string | number> | undefined,
+  source: MissingKeySource
+): string {
+  const translate = (lookupKey: string, lookupParams?: Record<string, string | number>) =>
+    translateKeyWithTranslations(context, lookupKey, lookupParams, source);
+
+  if (key.includes('[i18n:')) {
+    return formatEmbeddedString(key, params, translate);
+  }
+
+  return translate(key, params);
+}
@@ -1,9 +1,13 @@
+import type { APIContext } from 'astro';
+
 /**
  * Translation path for a single locale:
  * - Single file: `./src/i18n/en.json`
- * - Folder: `./src/i18n/en/` (auto-discover all JSONs inside)
+ * - Folder: `./src/i18n/en/` (auto-discover all translation files inside)
  * - Glob: `./src/i18n/en/**.json` (recursive)
- * - Array: `['./common.json', './auth.json']`
+ * - Array: `['./common.json', './auth.yaml']`
+ *
+ * Supported formats: `.json`, `.json5`, `.yaml`/`.yml` and `.toml`
  */
 export type LocaleTranslationPath = string | string[];
 
@@ -14,6 +18,50 @@ export type LocaleTranslationPath = string | string[];
  */
 export type TranslationsConfig = string | Record<string, LocaleTranslationPath>;
 
+/**
+ * Fallback config can be:
+ * - A single locale: 'en'
+ * - Per-locale mapping: { 'es-MX': 'es', 'pt-BR': ['pt', 'es'], default: 'en' }
+ */
+export type FallbackLocaleConfig = string | Record<string, string | string[]>;
+
+/**
+ * Named format presets, used as `n(value, 'currency')` or `d(date, 'short')`
+ *
+ * @example
+ * formats: {
+ *   number: { currency: { style: 'currency', currency: 'USD' } },
+ *   date: { short: { dateStyle: 'short' } },
+ * }
+ */
+export interface FormatPresets {
+  number?: Record<string, Intl.NumberFormatOptions>;
+  date?: Record<string, Intl.DateTimeFormatOptions>;
+  relativeTime?: Record<string, Intl.RelativeTimeFormatOptions>;
+  list?: Record<string, Intl.ListFormatOptions>;
+}
+
+/**
+ * Intl formatting helpers bound to the current locale
+ * `format` is a preset name from `formats` or inline Intl options.
+ */
+export interface Formatters {
+  /** Format a number (Intl.NumberFormat) */
+  n: (value: number | bigint, format?: string | Intl.NumberFormatOptions) => string;
+  /** Format a date (Intl.DateTimeFormat) */
+  d: (value: Date | number | string, format?: string | Intl.DateTimeFormatOptions) => string;
+  /** Format relative time, e.g. rt(-1, 'day') → 'yesterday' with numeric: 'auto' (Intl.RelativeTimeFormat) */
+  rt: (
+    value: number,
+    unit: Intl.RelativeTimeFormatUnit,
+    format?: string | Intl.RelativeTimeFormatOptions
+  ) => string;
+  /** Format a list, e.g. 'a, b, and c' (Intl.ListFormat) */
+  list: (items: Iterable<string>, format?: string | Intl.ListFormatOptions) => string;
+  /** Localized name of a language, region, script or currency code (Intl.DisplayNames) */
+  displayName: (code: string, type?: Intl.DisplayNamesType | Intl.DisplayNamesOptions) => string;
+}
+
 /**
  * Configuration for ez-i18n Astro integration
  */
@@ -37,6 +85,27 @@ export interface EzI18nConfig {
    */
   cookieName?: string;
 
+  /**
+   * Fallback locale(s) used when a locale is missing keys (or has no files).
+   *
+   * Can be:
+   * - A single locale used as the last resort for every locale:
+   *   fallbackLocale: 'en'
+   *
+   * - Per-locale fallbacks, with an optional `default` last resort:
+   *   fallbackLocale: {
+   *     'es-MX': 'es',
+   *     'pt-BR': ['pt', 'es'],
+   *     default: 'en',
+   *   }
+   *
+   * Regional locales without an explicit entry fall back to their base
+   * language when it's configured (`es-MX` → `es`).
+   *
+   * @default defaultLocale
+   */
+  fallbackLocale?: FallbackLocaleConfig;
+
   /**
    * Translation file paths configuration.
    * Paths are relative to your project root.
@@ -44,13 +113,13 @@ export interface EzI18nConfig {
    * Can be:
    * - A base directory (auto-discovers locale folders):
    *   translations: './public/i18n/'
-   *   → Scans for en/, es/, fr/ folders and their JSON files
+   *   → Scans for en/, es/, fr/ folders and their translation files
    *   → Auto-populates `locales` from discovered folders
    *
    * - Per-locale mapping with flexible path types:
    *   translations: {
    *     en: './src/i18n/en.json',           // single file
-   *     es: './src/i18n/es/',               // folder (all JSONs)
+   *     es: './src/i18n/es/',               // folder (all translation files)
    *     fr: './src/i18n/fr/**.json',          // glob pattern
    *     de: ['./common.json', './auth.json'] // array of files
    *   }
@@ -66,12 +135,178 @@ export interface EzI18nConfig {
    * - `en/auth/login.json` with `{ "title": "..." }` → `$t('auth.login.title')`
    * - `en/common.json` with `{ "actions": {...} }` → `$t('common.actions.save')`
    *
-   * The file path (minus locale folder and .json extension) becomes the key prefix.
+   * The file path (minus locale folder and file extension) becomes the key prefix.
    *
    * @default true when using folder-based translations config
    */
   pathBasedNamespacing?: boolean;
 
+  /**
+   * Generate TypeScript types for translation keys and their params from
+   * the `defaultLocale` files. When enabled, `t()`, `tc()`, `useI18n().t`
+   * and `Astro.locals.t` reject unknown keys and missing `{params}`.
+   *
+   * Disable if your app relies on dynamic (non-literal) translation keys.
+   *
+   * @default true
+   */
+  typedKeys?: boolean;
+
+  /**
+   * Namespaces loaded by the middleware for every request (e.g. `['common', 'nav.*']`).
+   * Pages load more with `await Astro.locals.loadNamespaces(['auth'])` in their
+   * frontmatter, and islands on demand with `loadNamespace()` from the runtime.
+   * Only loaded namespaces are inlined by `EzI18nHead` for hydration.
+   *
+   * Namespaces follow `pathBasedNamespacing` (e.g. `auth/login.json` → `auth.login`),
+   * so only matching files are read.
+   *
+   * @default undefined (every namespace is loaded)
+   */
+  namespaces?: string[];
+
+  /**
+   * Named presets for the `n()`, `d()`, `rt()` and `list()` formatting helpers
+   *
+   * @example
+   * formats: {
+   *   number: { currency: { style: 'currency', currency: 'EUR' } },
+   *   date: { long: { dateStyle: 'long', timeStyle: 'short' } },
+   * }
+   */
+  formats?: FormatPresets;
+
+  /**
+   * What `t()` returns for a missing key:
+   * - `'key'` - the key itself
+   * - `'fallback'` - the `defaultLocale` value, after the key is reported (or the key
+   *   if that's missing too)
+   * - `'empty'` - an empty string
+   * - `'throw'` - throw an error (useful in tests)
+   *
+   * Register a custom handler with `missingKeyHandler`, or at runtime with
+   * `setMissingKeyHandler()`.
+   *
+   * @default 'key'
+   */
+  onMissingKey?: MissingKeyStrategy;
+
+  /**
+   * Module whose default export is a `MissingKeyHandler`, registered on the
+   * server and in the browser. When it returns a string, that string is used
+   * as the translation; otherwise `onMissingKey` applies.
+   * The path is relative to the project root.
+   *
+   * @example
+   * missingKeyHandler: './src/i18n/missing.ts'
+   */
+  missingKeyHandler?: string;
+
+  /**
+   * Report missing keys to an endpoint. Keys are deduplicated and POSTed
+   * in batches as `{ missing: [{ key, locale, source, url }] }`.
+   *
+   * @example
+   * missingKeyBeacon: '/api/i18n/missing'
+   * missingKeyBeacon: { endpoint: 'https://example.com/i18n/missing', batchSize: 50 }
+   */
+  missingKeyBeacon?: string | MissingKeyBeaconOptions;
+
+  /**
+   * Ordered locale detection sources. The first resolver that returns a
+   * supported locale wins; `defaultLocale` is used when none do.
+   * Built-ins can be reordered or left out.
+   *
+   * For custom resolvers, pass a module path (relative to the project root)
+   * whose default export is a `LocaleResolver[]`. Custom resolvers receive the
+   * Astro middleware context; the module is only imported by the middleware.
+   *
+   * @default ['query', 'cookie', 'acceptLanguage'] (with 'domain' after 'query' when `domains` is set)
+   * @example
+   * resolvers: ['cookie', 'acceptLanguage']
+   * resolvers: './src/i18n/resolvers.ts'
+   */
+  resolvers?: BuiltinLocaleResolver[] | string;
+
+  /**
+   * Map hostnames to locales for apps served from one domain per locale.
+   * `*.example.de` matches `example.de` and all of its subdomains.
+   * A mapped domain's locale wins over the cookie by default, while `?lang=`
+   * still switches to any locale (reorder `resolvers` to change that), and
+   * `setLocale(locale, { redirect: true })` navigates to the locale's domain.
+   *
+   * @example
+   * domains: { 'example.de': 'de', '*.example.fr': 'fr', 'example.com': 'en' }
+   */
+  domains?: Record<string, string>;
+
+  /**
+   * Serve these routes under `/{locale}/` prefixes (e.g. for marketing pages
+   * that crawlers should see per locale). The middleware strips the prefix,
+   * renders the unprefixed page and syncs the cookie. Routes that don't match
+   * stay prefix-free and cookie-driven.
+   *
+   * Patterns match pathnames: `*` is one segment, `**` any number of segments.
+   *
+   * @example
+   * prefixRoutes: ['/', '/pricing', '/blog/**']
+   * prefixRoutes: { routes: ['/blog/**'], prefixDefaultLocale: true }
+   */
+  prefixRoutes?: string[] | PrefixRoutesOptions;
+
+  /**
+   * Add a pseudo-locale generated from the `defaultLocale` translations for
+   * layout testing: text is accented, padded ~40% and wrapped in brackets,
+   * with `{params}` and `[i18n:...]` tokens left intact.
+   * The locale is added to `locales` and can be selected with `?lang=`.
+   *
+   * - `true` - `en-XA`, plus the RTL pseudo-locale `ar-XB`
+   * - a locale code - that pseudo-locale only
+   * - an object - pick the LTR/RTL locales and the padding ratio
+   *
+   * @example
+   * pseudoLocale: 'en-XA'
+   * pseudoLocale: { locale: 'en-XA', rtlLocale: 'ar-XB', expansion: 0.5 }
+   */
+  pseudoLocale?: boolean | string | PseudoLocaleOptions;
+
+  /**
+   * Prerender a copy of every static page for each locale, so cookie-based
+   * locales work on plain static hosts (`output: 'static'` or prerendered pages).
+   * Each page gets an inline script that switches to the variant matching the
+   * locale cookie (or `?lang=`), and `ez-i18n-variants.json` maps pages to
+   * their variants for edge functions.
+   *
+   * - `'suffix'` (or `true`) - `about/index.html` + `about/index.es.html`
+   * - `'directory'` - `about/index.html` + `es/about/index.html`
+   */
+  staticVariants?: boolean | StaticVariantsLayout;
+
+  /**
+   * Compile every message to a function at build time. During SSR, `t()`,
+   * `tc()`, `Astro.locals.t` and the framework helpers then look keys up in a
+   * flat key → function map instead of walking the translation tree and
+   * parsing ICU syntax on each call. Messages are compiled from the files at
+   * build time, including those in `public/`.
+   *
+   * @default false
+   */
+  precompile?: boolean;
+
+  /**
+   * Add `xhtml:link` hreflang alternates for every locale to the sitemap
+   * after the build. The sitemaps written by @astrojs/sitemap are updated in
+   * place (list ezI18n after it in `integrations`); without them,
+   * `sitemap-i18n.xml` is written from the built pages. Only URLs that serve
+   * their locale are listed: `domains`, `prefixRoutes` and `staticVariants`
+   * URLs (cookie-only pages keep a single entry). Requires `site` in the Astro config.
+   *
+   * @example
+   * sitemap: true
+   * sitemap: { exclude: ['/app/**'] }
+   */
+  sitemap?: boolean | SitemapOptions;
+
   /**
    * Explicit cookie domain for cross-subdomain locale sharing.
    * When set, the locale cookie will include this domain (e.g., '.example.com').
@@ -80,6 +315,85 @@ export interface EzI18nConfig {
   cookieDomain?: string;
 }
 
+/**
+ * Built-in locale resolvers:
+ * - `'domain'` - the locale mapped to the request hostname in `domains`
+ * - `'query'` - the `?lang=` param (also saved to the cookie; the page is rendered without a redirect)
+ * - `'cookie'` - the locale cookie
+ * - `'acceptLanguage'` - the best match for the Accept-Language header
+ */
+export type BuiltinLocaleResolver = 'domain' | 'query' | 'cookie' | 'acceptLanguage';
+
+/**
+ * Custom locale resolver, called with the Astro middleware context.
+ * Returns a locale (matched against `locales`, regional tags fall back to their
+ * base language) or undefined to try the next resolver.
+ */
+export type LocaleResolverFunction = (
+  context: APIContext,
+  config: { locales: readonly string[]; defaultLocale: string }
+) => string | undefined | null | Promise<string | undefined | null>;
+
+export type LocaleResolver = BuiltinLocaleResolver | LocaleResolverFunction;
+
+/**
+ * URL-prefix routing configuration
+ */
+export interface PrefixRoutesOptions {
+  /** Route patterns served under `/{locale}/` */
+  routes: string[];
+  /** Prefix `defaultLocale` URLs too (otherwise they stay unprefixed) @default false */
+  prefixDefaultLocale?: boolean;
+}
+
+/**
+ * Localized sitemap configuration
+ */
+export interface SitemapOptions {
+  /**
+   * Route patterns left without alternates and out of `sitemap-i18n.xml`
+   * (`*` is one segment, `**` any number). `/404` and `/500` are always excluded.
+   */
+  exclude?: string[];
+}
+
+/**
+ * Prefix routing state shared by the middleware and localizePath()
+ */
+export interface PrefixRouting extends Required<PrefixRoutesOptions> {
+  locales: readonly string[];
+  defaultLocale: string;
+  /** Astro `base` the routes live under @default '/' */
+  base?: string;
+}
+
+/**
+ * Where prerendered locale variants of a page are written
+ */
+export type StaticVariantsLayout = 'suffix' | 'directory';
+
+/**
+ * Pseudo-locale configuration
+ */
+export interface PseudoLocaleOptions {
+  /** Left-to-right pseudo-locale (false to skip) @default 'en-XA' */
+  locale?: string | false;
+  /** Right-to-left pseudo-locale, rendered as 'rtl' (false to skip) @default 'ar-XB' */
+  rtlLocale?: string | false;
+  /** Extra padding as a fraction of the text length @default 0.4 */
+  expansion?: number;
+}
+
+/**
+ * Options for pseudoLocalize()
+ */
+export interface PseudoLocalizeOptions {
+  /** Extra padding as a fraction of the text length @default 0.4 */
+  expansion?: number;
+  /** Wrap text in right-to-left override marks */
+  rtl?: boolean;
+}
+
 /**
  * Resolved config with defaults applied.
  * After resolution:
@@ -98,6 +412,30 @@ export interface ResolvedEzI18nConfig {
   localeBaseDirs: Record<string, string>;
   /** Explicit cookie domain override */
   cookieDomain: string | undefined;
+  /** Ordered fallback locales for each locale (excluding the locale itself) */
+  fallbackChains: Record<string, string[]>;
+  /** Namespaces loaded for every request (undefined = whole locale) */
+  namespaces: string[] | undefined;
+  /** Named format presets for n()/d()/rt()/list() */
+  formats: FormatPresets;
+  /** What t() returns for a missing key */
+  onMissingKey: MissingKeyStrategy;
+  /** Where missing keys are reported (undefined = no reporting) */
+  missingKeyBeacon: MissingKeyBeaconOptions | undefined;
+  /** Generated pseudo-locales → transform options (also listed in locales) */
+  pseudoLocales: Record<string, PseudoLocalizeOptions>;
+  /** Where prerendered locale variants are written (undefined = defaultLocale only) */
+  staticVariants: StaticVariantsLayout | undefined;
+  /** Compile messages to functions in production builds */
+  precompile: boolean;
+  /** Ordered built-in locale detection sources, or the path of a module exporting them */
+  resolvers: BuiltinLocaleResolver[] | string;
+  /** Hostname or `*.` pattern (lowercased) → locale */
+  domains: Record<string, string>;
+  /** Routes served under `/{locale}/` (undefined = cookie-only) */
+  prefixRoutes: Required<PrefixRoutesOptions> | undefined;
+  /** Localized sitemap options (undefined = sitemap left as it is) */
+  sitemap: Required<SitemapOptions> | undefined;
 }
 
 /**
@@ -106,16 +444,110 @@ export interface ResolvedEzI18nConfig {
  */
 export interface TranslationCache {
   version: number;
+  /** Hash of the config options that affect discovery (`translations`, `locales`) */
+  configHash: string;
   /** Discovered locale → file paths mapping */
   discovered: Record<string, string[]>;
+  /** Directory → sorted entry names (subdirectories end with `/`) for every scanned directory */
+  directories: Record<string, string[]>;
+  /** Discovered file path → modification time (ms) */
+  mtimes: Record<string, number>;
   /** ISO timestamp of last scan */
   lastScan: string;
 }
 
+/**
+ * Registry for generated translation key types.
+ * Augmented by `.astro/integrations/ez-i18n/translation-keys.d.ts` when `typedKeys` is enabled:
+ *
+ * @example
+ * declare module '@zachhandley/ez-i18n' {
+ *   interface TranslationKeyRegistry {
+ *     keys: {
+ *       'common.welcome': undefined;
+ *       'greeting': { name: string | number };
+ *     };
+ *   }
+ * }
+ */
+// eslint-disable-next-line @typescript-eslint/no-empty-interface
+export interface TranslationKeyRegistry {}
+
+/** Map of translation key → params (falls back to untyped keys when nothing is generated) */
+type RegisteredKeys = TranslationKeyRegistry extends { keys: infer K }
+  ? K
+  : Record<string, Record<string, string | number> | undefined>;
+
+/** String containing embedded i18n references, e.g. 'Hello [i18n:greeting|name=World]' */
+export type EmbeddedTranslationString = `${string}[i18n:${string}]${string}`;
+
+/**
+ * Translation key accepted by t()/tc()
+ * A union of generated keys when `typedKeys` is enabled, otherwise any string.
+ */
+export type TranslationKey = (keyof RegisteredKeys & string) | EmbeddedTranslationString;
+
+/**
+ * Params argument for a translation key.
+ * Required when the key's message has `{placeholders}`, optional otherwise.
+ */
+export type TranslateArgs<K extends string> = K extends keyof RegisteredKeys
+  ? RegisteredKeys[K] extends Record<string, string | number>
+    ? [params: RegisteredKeys[K] & Record<string, string | number>]
+    : [params?: Record<string, string | number>]
+  : [params?: Record<string, string | number>];
+
 /**
  * Translation function type
  */
-export type TranslateFunction = (key: string, params?: Record<string, string | number>) => string;
+export type TranslateFunction = <K extends TranslationKey>(key: K, ...args: TranslateArgs<K>) => string;
+
+/**
+ * Missing key handling state, shared by every bundle through globalThis
+ */
+export interface MissingKeyState {
+  strategy: MissingKeyStrategy;
+  handler: MissingKeyHandler | null;
+  /** defaultLocale translations for the 'fallback' strategy (browser) */
+  fallbackTranslations: Record<string, unknown> | null;
+  beacon: { report: (key: string, locale: string, source: MissingKeySource) => void; flush: () => void } | null;
+}
+
+/**
+ * Built-in strategies for missing translation keys
+ */
+export type MissingKeyStrategy = 'key' | 'fallback' | 'empty' | 'throw';
+
+/**
+ * Where a missing key was looked up
+ */
+export type MissingKeySource = 't' | 'tc' | 'locals' | 'vue' | 'react' | 'svelte' | 'solid' | 'preact';
+
+export interface MissingKeyContext {
+  /** Which translation function asked for the key */
+  source: MissingKeySource;
+  /** Params passed with the key */
+  params?: Record<string, string | number>;
+}
+
+/**
+ * Custom missing key handler.
+ * Return a string to use it as the translation, or undefined to apply the configured strategy.
+ */
+export type MissingKeyHandler = (
+  key: string,
+  locale: string,
+  context: MissingKeyContext
+) => string | undefined | void;
+
+export interface MissingKeyBeaconOptions {
+  /** URL that receives the POSTed reports (use an absolute URL to also report during SSR) */
+  endpoint: string;
+  /** Send as soon as this many keys are queued @default 20 */
+  batchSize?: number;
+  /** Send queued keys after this many milliseconds @default 5000 */
+  flushInterval?: number;
+}
 
 /**
  * Augment Astro's locals type
@@ -124,6 +556,35 @@ export type TranslateFunction = (key: string, params?: Record<string, string | n
 export interface EzI18nContext {
   locale: string;
   translations: Record<string, unknown>;
+  /** Namespaces included in translations (undefined = whole locale) */
+  namespaces?: string[];
+  /** defaultLocale translations for the 'fallback' missing key strategy (server only) */
+  fallbackTranslations?: Record<string, unknown>;
+  /** Precompiled messages for the locale (server only, with `precompile`) */
+  messages?: CompiledMessages;
+}
+
+/**
+ * A message compiled at build time: the text itself when it has no arguments,
+ * otherwise a function of the params and the BCP47 tag (returns the source
+ * message when called without params, like t())
+ */
+export type CompiledMessage =
+  | string
+  | ((params: Record<string, string | number> | undefined, locale: string) => string);
+
+/**
+ * Flat key → compiled message map for one locale (fallbacks included)
+ */
+export type CompiledMessages = Record<string, CompiledMessage>;
+
+/**
+ * Minimal AsyncLocalStorage surface used to scope EzI18nContext to a request
+ * (node:async_hooks, or the Workers/Deno/Bun equivalents)
+ */
+export interface ContextStorage<T> {
+  getStore(): T | undefined;
+  run<R>(store: T, fn: () => R): R;
 }
 
 declare global {
@@ -135,11 +596,35 @@ declare global {
       translations: Record<string, unknown>;
       /** Server-side translation function */
       t: TranslateFunction;
+      /** Format a number for the current locale */
+      n: Formatters['n'];
+      /** Format a date for the current locale */
+      d: Formatters['d'];
+      /** Format relative time for the current locale */
+      rt: Formatters['rt'];
+      /** Format a list for the current locale */
+      list: Formatters['list'];
+      /** Localized display name of a language/region/script/currency code */
+      displayName: Formatters['displayName'];
+      /** Loaded namespaces (undefined when the whole locale is loaded) */
+      namespaces?: string[];
+      /** Load more namespaces into translations (call in page frontmatter, before EzI18nHead renders) */
+      loadNamespaces: (namespaces: string | string[]) => Promise<void>;
     }
   }
 
   // eslint-disable-next-line no-var
   var __EZ_I18N__: EzI18nContext | undefined;
   // eslint-disable-next-line no-var
+  var __EZ_I18N_STORAGE__: ContextStorage<EzI18nContext> | null | undefined;
+  // eslint-disable-next-line no-var
+  var __EZ_I18N_MISSING__: MissingKeyState | undefined;
+  // eslint-disable-next-line no-var
+  var __EZ_I18N_STATIC__: Map<string, Record<string, string>> | undefined;
+  // eslint-disable-next-line no-var
+  var __EZ_I18N_PREFIXED__: Map<string, Record<string, string>> | undefined;
+  // eslint-disable-next-line no-var
   var __EZ_I18N_ASSETS__: { fetch: (req: Request | URL | string) => Promise<Response> } | undefined;
+  // eslint-disable-next-line no-var
+  var __EZ_I18N_ROUTING__: PrefixRouting | undefined;
 }
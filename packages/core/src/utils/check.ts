@@ -0,0 +1,188 @@
+import type { EzI18nConfig } from '../types';
+import { flattenTranslations, loadLocaleTrees } from './translations';
+import { buildFallbackChains } from './locales';
+import { getMessageArguments } from '../runtime/icu';
+import { embeddedI18nPattern } from '../runtime/translate';
+
+export type CheckIssueType =
+  | 'invalid-file'
+  | 'missing'
+  | 'extra'
+  | 'not-string'
+  | 'placeholder-mismatch'
+  | 'broken-reference';
+
+export interface CheckIssue {
+  type: CheckIssueType;
+  severity: 'error' | 'warning';
+  locale: string;
+  /** Dot-notation key (or file path for invalid-file issues) */
+  key: string;
+  message: string;
+}
+
+export interface CheckReport {
+  defaultLocale: string;
+  locales: string[];
+  /** Number of keys in the default locale */
+  keyCount: number;
+  issues: CheckIssue[];
+  errors: number;
+  warnings: number;
+}
+
+function sameArguments(a: string[], b: string[]): boolean {
+  if (a.length !== b.length) return false;
+  const set = new Set(a);
+  return b.every((name) => set.has(name));
+}
+
+/**
+ * Compare translation trees for every locale against the default locale.
+ *
+ * Reports:
+ * - missing: key in defaultLocale but not in the locale (warning if a non-default fallback covers it)
+ * - extra: key in the locale but not in defaultLocale
+ * - not-string: leaf values that aren't strings
+ * - placeholder-mismatch: `{placeholder}` / ICU argument sets that differ from defaultLocale
+ * - broken-reference: `[i18n:key]` references to keys that don't exist
+ */
+export function checkTranslationTrees(
+  trees: Record<string, Record<string, unknown>>,
+  defaultLocale: string,
+  fallbackChains: Record<string, string[]> = {}
+): CheckReport {
+  const issues: CheckIssue[] = [];
+  const locales = Object.keys(trees);
+  const flat: Record<string, Record<string, unknown>> = {};
+  for (const locale of locales) {
+    flat[locale] = flattenTranslations(trees[locale]);
+  }
+
+  const defaultFlat = flat[defaultLocale] ?? {};
+  const defaultKeys = Object.keys(defaultFlat);
+
+  for (const locale of locales) {
+    const localeFlat = flat[locale];
+
+    for (const [key, value] of Object.entries(localeFlat)) {
+      if (typeof value !== 'string') {
+        issues.push({
+          type: 'not-string',
+          severity: 'error',
+          locale,
+          key,
+          message: `Expected a string, got ${Array.isArray(value) ? 'array' : value === null ? 'null' : typeof value}`,
+        });
+        continue;
+      }
+
+      // Embedded references must resolve in this locale or the default locale
+      for (const match of value.matchAll(embeddedI18nPattern)) {
+        const refKey = match[1];
+        if (typeof localeFlat[refKey] !== 'string' && typeof defaultFlat[refKey] !== 'string') {
+          issues.push({
+            type: 'broken-reference',
+            severity: 'error',
+            locale,
+            key,
+            message: `References unknown key "${refKey}"`,
+          });
+        }
+      }
+
+      if (locale === defaultLocale) continue;
+
+      if (!(key in defaultFlat)) {
+        issues.push({
+          type: 'extra',
+          severity: 'warning',
+          locale,
+          key,
+          message: `Not defined in ${defaultLocale}`,
+        });
+        continue;
+      }
+
+      const defaultValue = defaultFlat[key];
+      if (typeof defaultValue === 'string') {
+        const expected = getMessageArguments(defaultValue);
+        const actual = getMessageArguments(value);
+        if (!sameArguments(expected, actual)) {
+          issues.push({
+            type: 'placeholder-mismatch',
+            severity: 'error',
+            locale,
+            key,
+            message: `Placeholders {${actual.join(', ')}} differ from ${defaultLocale} {${expected.join(', ')}}`,
+          });
+        }
+      }
+    }
+
+    if (locale === defaultLocale) continue;
+
+    for (const key of defaultKeys) {
+      if (key in localeFlat) continue;
+      const coveredBy = (fallbackChains[locale] ?? []).find(
+        (fallback) => fallback !== defaultLocale && flat[fallback] && key in flat[fallback]
+      );
+      issues.push({
+        type: 'missing',
+        severity: coveredBy ? 'warning' : 'error',
+        locale,
+        key,
+        message: coveredBy ? `Missing (falls back to ${coveredBy})` : 'Missing translation',
+      });
+    }
+  }
+
+  return {
+    defaultLocale,
+    locales,
+    keyCount: defaultKeys.length,
+    issues,
+    errors: issues.filter((issue) => issue.severity === 'error').length,
+    warnings: issues.filter((issue) => issue.severity === 'warning').length,
+  };
+}
+
+/**
+ * Load every locale with the same discovery and namespacing rules as the
+ * Vite plugin, then check them against the default locale.
+ */
+export async function checkTranslations(
+  config: EzI18nConfig,
+  projectRoot: string
+): Promise<CheckReport> {
+  const fileIssues: CheckIssue[] = [];
+  const { locales, trees } = await loadLocaleTrees(config, projectRoot, (locale, file, error) => {
+    fileIssues.push({
+      type: 'invalid-file',
+      severity: 'error',
+      locale,
+      key: file,
+      message: error instanceof Error ? error.message : String(error),
+    });
+  });
+
+  const report = checkTranslationTrees(
+    trees,
+    config.defaultLocale,
+    buildFallbackChains(locales, config.defaultLocale, config.fallbackLocale)
+  );
+
+  if (!locales.includes(config.defaultLocale)) {
+    fileIssues.push({
+      type: 'missing',
+      severity: 'error',
+      locale: config.defaultLocale,
+      key: '*',
+      message: `defaultLocale "${config.defaultLocale}" not found in locales: [${locales.join(', ')}]`,
+    });
+  }
+
+  report.issues.unshift(...fileIssues);
+  report.errors += fileIssues.length;
+  return report;
+}
@@ -0,0 +1,85 @@
+/**
+ * Build-time message compilation
+ *
+ * Turns each message into JavaScript that produces the same output as
+ * formatMessage(), so SSR can skip tree walks and ICU parsing.
+ * The generated code calls the helpers in runtime/compiled.ts.
+ */
+import { parseMessage, type MessageNode } from '../runtime/icu';
+import { flattenTranslations } from './translations';
+
+/**
+ * Compile a list of nodes to a string concatenation expression
+ * @param pluralValue - Variable holding the innermost plural value (for `#`)
+ */
+function compileNodes(nodes: MessageNode[], pluralValue: string | undefined, depth: number): string {
+  if (nodes.length === 0) return '""';
+
+  const parts = nodes.map((node) => {
+    if (typeof node === 'string') return JSON.stringify(node);
+
+    switch (node.type) {
+      case 'argument':
+        return `__arg(p, ${JSON.stringify(node.name)})`;
+
+      case 'pound':
+        return pluralValue ? `__num(${pluralValue}, l)` : '"#"';
+
+      case 'plural': {
+        const value = `v${depth}`;
+        const branches = Object.entries(node.options)
+          .map(([selector, branch]) => `${JSON.stringify(selector)}: (${value}) => ${compileNodes(branch, value, depth + 1)}`)
+          .join(', ');
+        const name = JSON.stringify(node.name);
+        return `(${name} in p ? __plural(p[${name}], l, ${node.ordinal}, ${node.offset}, { ${branches} }) : ${JSON.stringify(node.raw)})`;
+      }
+
+      case 'select': {
+        const branches = Object.entries(node.options)
+          .map(([selector, branch]) => `${JSON.stringify(selector)}: () => ${compileNodes(branch, pluralValue, depth)}`)
+          .join(', ');
+        const name = JSON.stringify(node.name);
+        return `(${name} in p ? __select(p[${name}], { ${branches} }) : ${JSON.stringify(node.raw)})`;
+      }
+    }
+  });
+
+  return parts.join(' + ');
+}
+
+/**
+ * Compile a message to a JavaScript expression: a string literal when it has
+ * no arguments, otherwise a `(p, l) => string` function
+ *
+ * @example
+ * compileMessage('Home') // '"Home"'
+ * compileMessage('Hi {name}') // '(p, l) => p ? "Hi " + __arg(p, "name") : "Hi {name}"'
+ */
+export function compileMessage(message: string): string {
+  const source = JSON.stringify(message);
+  if (!message.includes('{')) return source;
+
+  const nodes = parseMessage(message);
+  if (nodes.every((node) => typeof node === 'string')) return source;
+
+  return `(p, l) => p ? ${compileNodes(nodes, undefined, 0)} : ${source}`;
+}
+
+/**
+ * Generate a module exporting the flat key → compiled message map for a translation tree
+ * (a null-prototype object, so keys like 'constructor' aren't inherited)
+ */
+export function generateCompiledMessagesModule(tree: Record<string, unknown>): string {
+  const entries = Object.entries(flattenTranslations(tree))
+    .filter((entry): entry is [string, string] => typeof entry[1] === 'string')
+    .map(([key, message]) => `  ${JSON.stringify(key)}: ${compileMessage(message)}`);
+
+  return `import { compiledHelpers as __h } from '@zachhandley/ez-i18n/runtime';
+
+const { arg: __arg, num: __num, plural: __plural, select: __select } = __h;
+
+export default Object.assign(Object.create(null), {
+${entries.join(',\n')}
+});
+`;
+}
@@ -3,6 +3,10 @@ export {
   resolveTranslationPaths,
   autoDiscoverTranslations,
   resolveTranslationsConfig,
+  resolveLocaleBaseDirs,
+  loadTranslationTree,
+  loadLocaleTrees,
+  flattenTranslations,
   deepMerge,
   loadCache,
   saveCache,
@@ -12,5 +16,50 @@ export {
   getNamespaceFromPath,
   wrapWithNamespace,
   generateNamespaceWrapperCode,
+  TRANSLATION_FILE_GLOB,
   type PathType,
 } from './translations';
+export {
+  parseTranslationFile,
+  isTranslationFile,
+  TRANSLATION_EXTENSIONS,
+} from '../parsers';
+export {
+  parseAcceptLanguage,
+  negotiateLocale,
+  type LanguageRange,
+} from './negotiate';
+export { generateKeyTypes, generateKeyTypesFromConfig } from './typegen';
+export {
+  checkTranslations,
+  checkTranslationTrees,
+  type CheckIssue,
+  type CheckIssueType,
+  type CheckReport,
+} from './check';
+export {
+  scanSource,
+  scanTranslationUsage,
+  DEFAULT_SCAN_PATTERNS,
+  type KeyUsage,
+  type DynamicKeyUsage,
+  type SourceScanResult,
+  type ScanReport,
+} from './scan';
+export {
+  writeStaticVariants,
+  writePrefixedPages,
+  getVariantPath,
+  getLocaleSwapScript,
+  STATIC_VARIANTS_MANIFEST,
+  type StaticVariantsOptions,
+  type StaticVariantsManifest,
+} from './static';
+export { compileMessage, generateCompiledMessagesModule } from './compile';
+export {
+  writeLocalizedSitemap,
+  addSitemapAlternates,
+  generateLocalizedSitemap,
+  I18N_SITEMAP,
+  type LocalizedSitemapOptions,
+} from './sitemap';
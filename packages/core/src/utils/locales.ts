@@ -1,3 +1,5 @@
+import type { FallbackLocaleConfig } from '../types';
+
 /**
  * Comprehensive locale database for ez-i18n
  * Contains display names (in native language) and BCP47 codes
@@ -238,3 +240,53 @@ export function buildLocaleDirections(locales: string[]): Record<string, 'ltr' |
   }
   return dirs;
 }
+
+/**
+ * Build fallback chains for each locale.
+ *
+ * Resolution order for a locale:
+ * 1. Explicit per-locale fallbacks (followed recursively)
+ * 2. Base language if configured (`es-MX` → `es`)
+ * 3. `fallbackLocale` string / `default` entry, or `defaultLocale`
+ *
+ * @example
+ * buildFallbackChains(['en', 'es', 'es-MX'], 'en')
+ * // { en: [], es: ['en'], 'es-MX': ['es', 'en'] }
+ */
+export function buildFallbackChains(
+  locales: string[],
+  defaultLocale: string,
+  fallbackLocale?: FallbackLocaleConfig
+): Record<string, string[]> {
+  const overrides = typeof fallbackLocale === 'object' ? fallbackLocale : {};
+  const lastResort = typeof fallbackLocale === 'string'
+    ? [fallbackLocale]
+    : toArray(overrides.default ?? defaultLocale);
+
+  const getDirectFallbacks = (locale: string): string[] => {
+    if (locale !== 'default' && overrides[locale]) {
+      return toArray(overrides[locale]);
+    }
+    const base = locale.split('-')[0];
+    return base !== locale && locales.includes(base) ? [base] : [];
+  };
+
+  const chains: Record<string, string[]> = {};
+  for (const locale of locales) {
+    const chain: string[] = [];
+    const visit = (candidate: string) => {
+      if (candidate === locale || chain.includes(candidate)) return;
+      chain.push(candidate);
+      for (const next of getDirectFallbacks(candidate)) visit(next);
+    };
+
+    for (const next of getDirectFallbacks(locale)) visit(next);
+    for (const next of lastResort) visit(next);
+    chains[locale] = chain;
+  }
+  return chains;
+}
+
+function toArray(value: string | string[]): string[] {
+  return Array.isArray(value) ? value : [value];
+}
@@ -0,0 +1,160 @@
+/**
+ * Accept-Language negotiation (RFC 9110 weights + RFC 4647 lookup)
+ *
+ * Dependency-free so it can run in the middleware on any runtime.
+ */
+
+export interface LanguageRange {
+  /** Language tag as sent by the client (e.g. 'pt-BR', '*') */
+  tag: string;
+  /** Quality weight between 0 and 1 */
+  q: number;
+}
+
+/** Regions in UN M49 "Latin America and the Caribbean" (419) */
+const LATIN_AMERICA = new Set([
+  'AG', 'AI', 'AR', 'AW', 'BB', 'BL', 'BO', 'BQ', 'BR', 'BS', 'BZ', 'CL', 'CO', 'CR', 'CU', 'CW',
+  'DM', 'DO', 'EC', 'FK', 'GD', 'GF', 'GP', 'GT', 'GY', 'HN', 'HT', 'JM', 'KN', 'KY', 'LC', 'MF',
+  'MQ', 'MS', 'MX', 'NI', 'PA', 'PE', 'PR', 'PY', 'SR', 'SV', 'SX', 'TC', 'TT', 'UY', 'VC', 'VE',
+  'VG', 'VI',
+]);
+
+interface TagParts {
+  language: string;
+  script?: string;
+  region?: string;
+}
+
+/**
+ * Split a tag into language/script/region, filling in likely subtags
+ * (zh-TW → zh-Hant-TW) when Intl.Locale is available
+ */
+function getTagParts(tag: string): TagParts {
+  try {
+    const locale = new Intl.Locale(tag).maximize();
+    return { language: locale.language, script: locale.script, region: locale.region };
+  } catch {
+    const [language, ...rest] = tag.split('-');
+    return {
+      language: language.toLowerCase(),
+      script: rest.find((part) => part.length === 4),
+      region: rest.find((part) => part.length === 2 || /^\d{3}$/.test(part))?.toUpperCase(),
+    };
+  }
+}
+
+function normalizeTag(tag: string): string {
+  return tag.trim().replace(/_/g, '-').toLowerCase();
+}
+
+/**
+ * Check if `region` is inside `area` (same region, or a Latin American country in 419)
+ */
+function isInRegion(region: string | undefined, area: string | undefined): boolean {
+  if (!region || !area) return false;
+  if (region === area) return true;
+  return area === '419' && LATIN_AMERICA.has(region);
+}
+
+/**
+ * Parse an Accept-Language header into ranges sorted by weight (highest first).
+ * Ranges with q=0 are dropped; equal weights keep header order.
+ *
+ * @example
+ * parseAcceptLanguage('fr-CH, fr;q=0.9, en;q=0.8, *;q=0.5')
+ * // [{ tag: 'fr-CH', q: 1 }, { tag: 'fr', q: 0.9 }, { tag: 'en', q: 0.8 }, { tag: '*', q: 0.5 }]
+ */
+export function parseAcceptLanguage(header: string): LanguageRange[] {
+  const ranges: LanguageRange[] = [];
+
+  for (const part of header.split(',')) {
+    const [tagPart, ...params] = part.split(';');
+    const tag = tagPart.trim();
+    if (!tag) continue;
+
+    let q = 1;
+    for (const param of params) {
+      const [name, value] = param.split('=').map((s) => s.trim());
+      if (name === 'q') {
+        const parsed = Number(value);
+        q = Number.isNaN(parsed) ? 0 : Math.min(Math.max(parsed, 0), 1);
+      }
+    }
+
+    if (q > 0) ranges.push({ tag, q });
+  }
+
+  // Array.prototype.sort is stable, so equal weights keep header order
+  return ranges.sort((a, b) => b.q - a.q);
+}
+
+/**
+ * Find the best configured locale for a single requested tag:
+ * 1. Exact match (case-insensitive, `_` treated as `-`)
+ * 2. Truncation lookup: zh-Hant-TW → zh-Hant → zh
+ * 3. Sibling match in the same language, preferring the same script and a
+ *    containing region: es-AR → es-419, zh-TW → zh-Hant, pt → pt-BR
+ */
+function matchTag(tag: string, locales: readonly string[]): string | undefined {
+  const normalized = normalizeTag(tag);
+  const byTag = new Map(locales.map((locale) => [normalizeTag(locale), locale]));
+
+  // Exact + truncation
+  const subtags = normalized.split('-');
+  for (let i = subtags.length; i > 0; i--) {
+    const match = byTag.get(subtags.slice(0, i).join('-'));
+    if (match) return match;
+  }
+
+  // Siblings in the same language
+  const requested = getTagParts(normalized);
+  let best: string | undefined;
+  let bestScore = -1;
+
+  for (const locale of locales) {
+    const candidate = getTagParts(normalizeTag(locale));
+    if (candidate.language !== requested.language) continue;
+
+    let score = 0;
+    if (candidate.script && candidate.script === requested.script) score += 2;
+    if (isInRegion(requested.region, candidate.region)) score += 1;
+
+    if (score > bestScore) {
+      best = locale;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Pick the best configured locale for an Accept-Language header (or parsed ranges).
+ * Ranges are tried in weight order; the first one that matches any locale wins.
+ *
+ * @param acceptLanguage - Accept-Language header value or parsed ranges
+ * @param locales - Configured locale codes
+ * @returns The matching configured locale, or undefined if nothing matches
+ *
+ * @example
+ * negotiateLocale('es-AR,es;q=0.9,en;q=0.8', ['en', 'es-419', 'es-ES']) // 'es-419'
+ * negotiateLocale('zh-TW', ['en', 'zh-CN', 'zh-TW']) // 'zh-TW'
+ * negotiateLocale('de;q=0.3, pt-BR', ['en', 'pt-BR', 'de']) // 'pt-BR'
+ */
+export function negotiateLocale(
+  acceptLanguage: string | LanguageRange[],
+  locales: readonly string[]
+): string | undefined {
+  const ranges = typeof acceptLanguage === 'string'
+    ? parseAcceptLanguage(acceptLanguage)
+    : acceptLanguage;
+
+  for (const { tag } of ranges) {
+    // Wildcard means "anything else" - leave it to the caller's default
+    if (tag === '*') continue;
+    const match = matchTag(tag, locales);
+    if (match) return match;
+  }
+
+  return undefined;
+}
@@ -0,0 +1,207 @@
+import { glob } from 'tinyglobby';
+import * as path from 'node:path';
+import * as fs from 'node:fs';
+import type { EzI18nConfig } from '../types';
+import { flattenTranslations, loadLocaleTrees } from './translations';
+import { embeddedI18nPattern } from '../runtime/translate';
+
+/** Source files scanned by default (relative to the project root) */
+export const DEFAULT_SCAN_PATTERNS = ['src/**/*.{astro,vue,ts,tsx,jsx}'];
+
+export interface KeyUsage {
+  key: string;
+  file: string;
+  line: number;
+}
+
+export interface DynamicKeyUsage {
+  file: string;
+  line: number;
+  /** Source text of the key argument */
+  expression: string;
+  /** Static key prefix, if any (e.g. 'errors.' for t(`errors.${code}`)) */
+  prefix?: string;
+}
+
+export interface SourceScanResult {
+  keys: KeyUsage[];
+  dynamic: DynamicKeyUsage[];
+}
+
+export interface ScanReport {
+  defaultLocale: string;
+  filesScanned: number;
+  /** Keys defined in defaultLocale that are never used */
+  unused: string[];
+  /** Keys used in source that aren't defined in defaultLocale */
+  undeclared: KeyUsage[];
+  /** Calls whose key couldn't be resolved statically */
+  dynamic: DynamicKeyUsage[];
+}
+
+/**
+ * Translation calls: t(, tc(, $t(, $tc(, useTranslation(, Astro.locals.t(
+ * The lookbehind skips method calls like `foo.t(` and identifiers like `format(`.
+ */
+const callPattern = /(Astro\.locals\.t|(?<![\w$.])(?:\$tc?|tc?|useTranslation))\(\s*/g;
+/** Quotes or whitespace mean the match spans string concatenation, not a literal key */
+const nonLiteralKeyPattern = /['"`\s]/;
+
+/**
+ * Create a lookup from character index to 1-based line number
+ */
+function createLineLookup(code: string): (index: number) => number {
+  const lineStarts = [0];
+  for (let i = 0; i < code.length; i++) {
+    if (code.charCodeAt(i) === 10) lineStarts.push(i + 1);
+  }
+  return (index) => {
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (lineStarts[mid] <= index) low = mid;
+      else high = mid - 1;
+    }
+    return low + 1;
+  };
+}
+
+/**
+ * Read the first argument of a translation call starting at `start`.
+ * Returns the literal key, or a dynamic expression (with its static prefix if any).
+ */
+function readKeyArgument(
+  code: string,
+  start: number
+): { key: string } | { expression: string; prefix?: string } | null {
+  const quote = code[start];
+  if (quote === ')') return null;
+
+  if (quote === "'" || quote === '"' || quote === '`') {
+    let value = '';
+    let i = start + 1;
+    for (; i < code.length && code[i] !== quote; i++) {
+      if (code[i] === '\\') {
+        value += code[++i] ?? '';
+        continue;
+      }
+      if (quote === '`' && code[i] === '$' && code[i + 1] === '{') {
+        const end = code.indexOf('`', i);
+        return {
+          expression: code.slice(start, end === -1 ? i + 2 : end + 1),
+          prefix: value || undefined,
+        };
+      }
+      if (code[i] === '\n' && quote !== '`') break;
+      value += code[i];
+    }
+
+    // String concatenation: t('errors.' + code)
+    const rest = code.slice(i + 1).match(/^\s*\+/);
+    if (rest) {
+      const end = code.slice(start).search(/[),]/);
+      return {
+        expression: code.slice(start, end === -1 ? start + 60 : start + end).trim(),
+        prefix: value || undefined,
+      };
+    }
+    return { key: value };
+  }
+
+  const end = code.slice(start).search(/[),]/);
+  return { expression: code.slice(start, end === -1 ? start + 60 : start + end).trim() };
+}
+
+/**
+ * Statically scan source code for translation keys.
+ * Picks up t()/tc()/$t()/$tc()/useTranslation()/Astro.locals.t() calls
+ * and `[i18n:key]` embedded references.
+ */
+export function scanSource(code: string, file: string): SourceScanResult {
+  const keys: KeyUsage[] = [];
+  const dynamic: DynamicKeyUsage[] = [];
+  const getLineNumber = createLineLookup(code);
+
+  for (const match of code.matchAll(callPattern)) {
+    const argStart = match.index! + match[0].length;
+    const arg = readKeyArgument(code, argStart);
+    if (!arg) continue;
+
+    const line = getLineNumber(match.index!);
+    if ('key' in arg) {
+      // Embedded strings are picked up by the embedded pattern below
+      if (!arg.key.includes('[i18n:')) keys.push({ key: arg.key, file, line });
+    } else {
+      dynamic.push({ file, line, ...arg });
+    }
+  }
+
+  for (const match of code.matchAll(embeddedI18nPattern)) {
+    if (nonLiteralKeyPattern.test(match[1])) continue;
+    keys.push({ key: match[1], file, line: getLineNumber(match.index!) });
+  }
+
+  return { keys, dynamic };
+}
+
+/**
+ * Compare keys used in source files against the defaultLocale key tree.
+ * Keys referenced from other translations via `[i18n:key]` count as used,
+ * and keys matching a dynamic call's static prefix are never reported as unused.
+ *
+ * @param patterns - Globs (relative to projectRoot) of files to scan
+ */
+export async function scanTranslationUsage(
+  config: EzI18nConfig,
+  projectRoot: string,
+  patterns: string[] = DEFAULT_SCAN_PATTERNS
+): Promise<ScanReport> {
+  const { trees } = await loadLocaleTrees(config, projectRoot);
+  const defined = flattenTranslations(trees[config.defaultLocale] ?? {});
+  const definedKeys = new Set(Object.keys(defined).filter((key) => typeof defined[key] === 'string'));
+
+  const files = await glob(patterns, {
+    cwd: projectRoot,
+    absolute: true,
+    ignore: ['**/node_modules/**', '**/*.d.ts'],
+  });
+
+  const used = new Set<string>();
+  const undeclared: KeyUsage[] = [];
+  const dynamic: DynamicKeyUsage[] = [];
+
+  for (const file of files.sort((a, b) => a.localeCompare(b))) {
+    const relativeFile = path.relative(projectRoot, file).replace(/\\/g, '/');
+    const result = scanSource(fs.readFileSync(file, 'utf-8'), relativeFile);
+
+    for (const usage of result.keys) {
+      used.add(usage.key);
+      if (!definedKeys.has(usage.key)) undeclared.push(usage);
+    }
+    dynamic.push(...result.dynamic);
+  }
+
+  // References between translations keep their targets alive
+  for (const value of Object.values(defined)) {
+    if (typeof value !== 'string') continue;
+    for (const match of value.matchAll(embeddedI18nPattern)) used.add(match[1]);
+  }
+
+  const dynamicPrefixes = dynamic
+    .map((usage) => usage.prefix)
+    .filter((prefix): prefix is string => !!prefix);
+
+  const unused = [...definedKeys]
+    .filter((key) => !used.has(key))
+    .filter((key) => !dynamicPrefixes.some((prefix) => key.startsWith(prefix)))
+    .sort((a, b) => a.localeCompare(b));
+
+  return {
+    defaultLocale: config.defaultLocale,
+    filesScanned: files.length,
+    unused,
+    undeclared,
+    dynamic,
+  };
+}
@@ -0,0 +1,153 @@
+/**
+ * Localized sitemaps
+ *
+ * Adds `xhtml:link` hreflang alternates to the sitemaps written by
+ * @astrojs/sitemap, or writes `sitemap-i18n.xml` from the built pages when
+ * there is none. Alternate URLs follow the same routing mode as EzI18nSeo.
+ */
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { getLocaleAlternates, hasLocaleUrl, type LocaleAlternate, type LocaleAlternatesOptions } from '../runtime/seo';
+import { matchRoute, splitLocalePrefix } from '../runtime/routing';
+
+/** Sitemap written when the build has no @astrojs/sitemap output */
+export const I18N_SITEMAP = 'sitemap-i18n.xml';
+
+const XHTML_NS = 'http://www.w3.org/1999/xhtml';
+const SITEMAP_FILE = /^sitemap-\d+\.xml$/;
+
+export interface LocalizedSitemapOptions extends LocaleAlternatesOptions {
+  /** Route patterns (without locale prefix) left without alternates and out of generated sitemaps */
+  exclude?: string[];
+  /** Page URL → locale → URL of its prerendered variants (from `staticVariants`) */
+  variants?: Record<string, Record<string, string>>;
+}
+
+function escapeXml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function unescapeXml(value: string): string {
+  return value.replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&apos;/g, "'").replace(/&amp;/g, '&');
+}
+
+/**
+ * Check if a page URL matches an `exclude` pattern (without its locale prefix)
+ */
+function isExcluded(url: URL, options: LocalizedSitemapOptions): boolean {
+  const { pathname } = options.routing
+    ? splitLocalePrefix(url.pathname, options.routing.locales, options.routing.base)
+    : url;
+  return Boolean(options.exclude?.some((pattern) => matchRoute(pathname, pattern)));
+}
+
+/**
+ * Get the alternates of a page URL: the locale URLs that serve their locale
+ * (undefined when the route is excluded or cookie-only). Prerendered pages
+ * ignore `?lang=`, so those URLs are left out.
+ */
+function getPageAlternates(loc: string, options: LocalizedSitemapOptions): LocaleAlternate[] | undefined {
+  const url = new URL(loc);
+  if (isExcluded(url, options)) return undefined;
+
+  const variants = options.variants?.[url.pathname];
+  if (variants) {
+    const alternates = options.locales
+      .filter((locale) => variants[locale])
+      .map((locale) => ({
+        locale,
+        hreflang: options.localeToBCP47?.[locale] ?? locale,
+        href: new URL(variants[locale], url).href,
+      }));
+    alternates.push({ locale: 'x-default', hreflang: 'x-default', href: url.href });
+    return alternates;
+  }
+
+  const served = options.locales.filter((locale) => hasLocaleUrl(url, locale, options));
+  if (served.length === 0) return undefined;
+  return getLocaleAlternates(url, { ...options, locales: served });
+}
+
+/**
+ * Sitemap `<url>` entries for a page: its own entry (keeping its other
+ * elements) plus one per alternate URL not listed yet, each with every alternate
+ * @param seen - URLs that already have an entry (updated)
+ */
+function getUrlEntries(loc: string, extra: string, alternates: LocaleAlternate[], seen: Set<string>): string[] {
+  const links = alternates
+    .map(({ hreflang, href }) => `<xhtml:link rel="alternate" hreflang="${escapeXml(hreflang)}" href="${escapeXml(href)}"/>`)
+    .join('');
+  const urls = [loc, ...alternates.map(({ href }) => href).filter((href) => !seen.has(href) && href !== loc)];
+  for (const href of urls) seen.add(href);
+  return [...new Set(urls)].map((href) => `<url><loc>${escapeXml(href)}</loc>${href === loc ? extra : ''}${links}</url>`);
+}
+
+function getLocs(xml: string): Set<string> {
+  return new Set([...xml.matchAll(/<loc>([\s\S]*?)<\/loc>/g)].map((match) => unescapeXml(match[1].trim())));
+}
+
+/**
+ * Add hreflang alternates to every `<url>` of a sitemap
+ * (entries that already have alternates are left as they are)
+ */
+export function addSitemapAlternates(xml: string, options: LocalizedSitemapOptions): string {
+  const seen = getLocs(xml);
+  let result = xml.replace(/<url>([\s\S]*?)<\/url>/g, (entry, body: string) => {
+    if (body.includes('xhtml:link')) return entry;
+    const match = /<loc>([\s\S]*?)<\/loc>/.exec(body);
+    if (!match) return entry;
+
+    const loc = unescapeXml(match[1].trim());
+    const alternates = getPageAlternates(loc, options);
+    if (!alternates) return entry;
+    return getUrlEntries(loc, body.replace(match[0], ''), alternates, seen).join('');
+  });
+
+  if (!/xmlns:xhtml=/.test(result)) {
+    result = result.replace(/<urlset\b/, `<urlset xmlns:xhtml="${XHTML_NS}"`);
+  }
+  return result;
+}
+
+/**
+ * Generate a sitemap with hreflang alternates for a list of page URLs
+ * (excluded pages are left out)
+ */
+export function generateLocalizedSitemap(pages: string[], options: LocalizedSitemapOptions): string {
+  const listed = pages.filter((loc) => !isExcluded(new URL(loc), options));
+  const seen = new Set(listed);
+  const entries = listed.flatMap((loc) => {
+    const alternates = getPageAlternates(loc, options);
+    return alternates ? getUrlEntries(loc, '', alternates, seen) : [`<url><loc>${escapeXml(loc)}</loc></url>`];
+  });
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9" xmlns:xhtml="${XHTML_NS}">
+${entries.join('\n')}
+</urlset>
+`;
+}
+
+/**
+ * Add alternates to the @astrojs/sitemap output in `outDir`, or write
+ * `sitemap-i18n.xml` for `pages` when there is none
+ *
+ * @param pages - Absolute URLs of the built pages
+ * @returns The sitemap files that were written (relative to `outDir`)
+ */
+export function writeLocalizedSitemap(
+  outDir: string,
+  pages: string[],
+  options: LocalizedSitemapOptions
+): string[] {
+  const sitemaps = fs.readdirSync(outDir).filter((file) => SITEMAP_FILE.test(file));
+
+  for (const file of sitemaps) {
+    const target = path.join(outDir, file);
+    fs.writeFileSync(target, addSitemapAlternates(fs.readFileSync(target, 'utf-8'), options));
+  }
+  if (sitemaps.length > 0) return sitemaps;
+
+  fs.writeFileSync(path.join(outDir, I18N_SITEMAP), generateLocalizedSitemap(pages, options));
+  return [I18N_SITEMAP];
+}
@@ -0,0 +1,217 @@
+/**
+ * Locale variants for static builds
+ *
+ * The middleware renders every prerendered page once per locale during the
+ * build (into globalThis.__EZ_I18N_STATIC__); this writes the extra variants
+ * next to Astro's output and adds the cookie-based switcher to each page.
+ * Pages on `prefixRoutes` (globalThis.__EZ_I18N_PREFIXED__) are written to
+ * their `/{locale}/` URLs instead, since Astro can't rewrite to prerendered pages.
+ */
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import type { PrefixRouting, StaticVariantsLayout } from '../types';
+import { localizePath } from '../runtime/routing';
+
+/** Manifest of page → locale → URL, written to the build output root */
+export const STATIC_VARIANTS_MANIFEST = 'ez-i18n-variants.json';
+
+export interface StaticVariantsOptions {
+  layout: StaticVariantsLayout;
+  defaultLocale: string;
+  cookieName: string;
+  /** Explicit cookie domain (omitted = current host) */
+  cookieDomain?: string;
+  /** Astro `base` path @default '/' */
+  base?: string;
+}
+
+export interface StaticVariantsManifest {
+  cookieName: string;
+  defaultLocale: string;
+  /** defaultLocale page URL → locale → variant URL */
+  pages: Record<string, Record<string, string>>;
+}
+
+/**
+ * Get the output path of a page variant, relative to the build output
+ *
+ * @example
+ * getVariantPath('about/index.html', 'es', 'suffix')    // 'about/index.es.html'
+ * getVariantPath('about/index.html', 'es', 'directory') // 'es/about/index.html'
+ */
+export function getVariantPath(file: string, locale: string, layout: StaticVariantsLayout): string {
+  return layout === 'directory'
+    ? `${locale}/${file}`
+    : file.replace(/\.html$/, `.${locale}.html`);
+}
+
+/**
+ * Inline script that switches to the variant for the `?lang=` param or locale cookie.
+ * Without a cookie, the defaultLocale page follows navigator.languages.
+ *
+ * @param locale - Locale of the page the script is added to
+ * @param variants - Locale → URL of every variant of the page
+ */
+export function getLocaleSwapScript(
+  locale: string,
+  variants: Record<string, string>,
+  options: Pick<StaticVariantsOptions, 'defaultLocale' | 'cookieName' | 'cookieDomain'>
+): string {
+  const data = JSON.stringify({
+    locale,
+    variants,
+    defaultLocale: options.defaultLocale,
+    cookieName: options.cookieName,
+    cookieDomain: options.cookieDomain,
+  }).replace(/</g, '\\u003c');
+
+  return `(function() {
+  try {
+    var c = ${data};
+    var url = new URL(location.href);
+    var lang = url.searchParams.get('lang');
+    var target = null;
+    if (lang && c.variants[lang]) {
+      document.cookie = c.cookieName + '=' + encodeURIComponent(lang) + '; path=/; max-age=31536000; samesite=lax' + (c.cookieDomain ? '; domain=' + c.cookieDomain : '');
+      url.searchParams.delete('lang');
+      target = lang;
+    } else {
+      var match = document.cookie.match(new RegExp('(?:^|; )' + c.cookieName + '=([^;]*)'));
+      target = match ? decodeURIComponent(match[1]) : null;
+      if (!target && c.locale === c.defaultLocale) {
+        var langs = navigator.languages || [navigator.language];
+        for (var i = 0; i < langs.length && !target; i++) {
+          var base = langs[i].split('-')[0];
+          target = c.variants[langs[i]] ? langs[i] : c.variants[base] ? base : null;
+        }
+      }
+    }
+    if (target && target !== c.locale && c.variants[target]) {
+      location.replace(c.variants[target] + url.search + url.hash);
+    } else if (lang) {
+      history.replaceState(history.state, '', url.pathname + url.search + url.hash);
+    }
+  } catch (e) {}
+})();`;
+}
+
+/**
+ * Inline script that stores the page's locale in the locale cookie
+ * (what the middleware does for `/{locale}/` requests on the server)
+ */
+function getLocaleCookieScript(
+  locale: string,
+  options: Pick<StaticVariantsOptions, 'cookieName' | 'cookieDomain'>
+): string {
+  const cookie = `${options.cookieName}=${encodeURIComponent(locale)}; path=/; max-age=31536000; samesite=lax`
+    + (options.cookieDomain ? `; domain=${options.cookieDomain}` : '');
+  return `try { document.cookie = ${JSON.stringify(cookie).replace(/</g, '\\u003c')}; } catch (e) {}`;
+}
+
+/**
+ * Find the file Astro wrote for a page (directory, file or preserve build format)
+ */
+function findPageFile(outDir: string, pagePath: string): string | undefined {
+  const clean = pagePath.replace(/^\/+|\/+$/g, '');
+  const candidates = clean.endsWith('.html')
+    ? [clean]
+    : [path.join(clean, 'index.html'), `${clean || 'index'}.html`];
+  return candidates.map((file) => path.join(outDir, file)).find((file) => fs.existsSync(file));
+}
+
+/**
+ * Add the swap script as early as possible in <head>
+ */
+function injectScript(html: string, script: string): string {
+  const tag = `<script>${script}</script>`;
+  const head = /<head[^>]*>/i.exec(html);
+  if (!head) return tag + html;
+  const end = head.index + head[0].length;
+  return html.slice(0, end) + tag + html.slice(end);
+}
+
+/**
+ * Write the rendered locale variants of each page and the variants manifest
+ *
+ * @param outDir - Build output directory (Astro's client output)
+ * @param pages - Pathname → locale → rendered HTML (including defaultLocale)
+ */
+export function writeStaticVariants(
+  outDir: string,
+  pages: Map<string, Record<string, string>>,
+  options: StaticVariantsOptions
+): StaticVariantsManifest {
+  const base = (options.base ?? '/').replace(/\/?$/, '/');
+  const manifest: StaticVariantsManifest = {
+    cookieName: options.cookieName,
+    defaultLocale: options.defaultLocale,
+    pages: {},
+  };
+
+  for (const [pathname, rendered] of pages) {
+    const pagePath = pathname.startsWith(base) ? pathname.slice(base.length) : pathname;
+    const file = findPageFile(outDir, pagePath);
+    if (!file) {
+      console.warn(`[ez-i18n] No prerendered file found for ${pathname}, skipping its locale variants`);
+      continue;
+    }
+
+    const defaultFile = path.relative(outDir, file).split(path.sep).join('/');
+    const files: Record<string, string> = {};
+    const urls: Record<string, string> = {};
+    for (const locale of Object.keys(rendered)) {
+      files[locale] = locale === options.defaultLocale
+        ? defaultFile
+        : getVariantPath(defaultFile, locale, options.layout);
+      urls[locale] = base + files[locale].replace(/(^|\/)index\.html$/, '$1');
+    }
+
+    for (const [locale, html] of Object.entries(rendered)) {
+      const target = path.join(outDir, files[locale]);
+      fs.mkdirSync(path.dirname(target), { recursive: true });
+      fs.writeFileSync(target, injectScript(html, getLocaleSwapScript(locale, urls, options)));
+    }
+    manifest.pages[urls[options.defaultLocale] ?? base + defaultFile] = urls;
+  }
+
+  fs.writeFileSync(path.join(outDir, STATIC_VARIANTS_MANIFEST), JSON.stringify(manifest, null, 2));
+  return manifest;
+}
+
+/**
+ * Write the `/{locale}/` copies of prerendered pages on prefixed routes
+ * (defaultLocale pages only with `prefixDefaultLocale`)
+ *
+ * @param outDir - Build output directory (Astro's client output)
+ * @param pages - Pathname → locale → rendered HTML
+ * @returns The URLs that were written
+ */
+export function writePrefixedPages(
+  outDir: string,
+  pages: Map<string, Record<string, string>>,
+  options: Pick<StaticVariantsOptions, 'cookieName' | 'cookieDomain'> & { routing: PrefixRouting }
+): string[] {
+  const { routing } = options;
+  const base = (routing.base ?? '/').replace(/\/?$/, '/');
+  const written: string[] = [];
+
+  for (const [pathname, rendered] of pages) {
+    const pagePath = pathname.startsWith(base) ? pathname.slice(base.length) : pathname;
+    const file = findPageFile(outDir, pagePath);
+    if (!file) {
+      console.warn(`[ez-i18n] No prerendered file found for ${pathname}, skipping its /{locale}/ copies`);
+      continue;
+    }
+
+    const defaultFile = path.relative(outDir, file).split(path.sep).join('/');
+    for (const [locale, html] of Object.entries(rendered)) {
+      if (locale === routing.defaultLocale && !routing.prefixDefaultLocale) continue;
+      const target = path.join(outDir, getVariantPath(defaultFile, locale, 'directory'));
+      fs.mkdirSync(path.dirname(target), { recursive: true });
+      fs.writeFileSync(target, injectScript(html, getLocaleCookieScript(locale, options)));
+      written.push(localizePath(pathname, locale, routing));
+    }
+  }
+
+  return written;
+}
@@ -1,12 +1,17 @@
 import { glob } from 'tinyglobby';
 import * as path from 'node:path';
 import * as fs from 'node:fs';
-import type { LocaleTranslationPath, TranslationsConfig, TranslationCache } from '../types';
+import { createHash } from 'node:crypto';
+import type { EzI18nConfig, LocaleTranslationPath, TranslationsConfig, TranslationCache } from '../types';
+import { isTranslationFile, parseTranslationFile, stripTranslationExtension } from '../parsers';
 
 const CACHE_FILE = '.ez-i18n.json';
-const CACHE_VERSION = 1;
+const CACHE_VERSION = 2;
 const DEFAULT_I18N_DIR = './public/i18n';
 
+/** Glob matching every supported translation file format */
+export const TRANSLATION_FILE_GLOB = '**/*.{json,json5,yaml,yml,toml}';
+
 export type PathType = 'file' | 'folder' | 'glob' | 'array';
 
 /**
@@ -51,15 +56,15 @@ export async function resolveTranslationPaths(
       break;
 
     case 'glob':
-      files = await glob(input as string, {
+      files = (await glob(input as string, {
         cwd: projectRoot,
         absolute: true,
-      });
+      })).filter(isTranslationFile);
       break;
 
     case 'folder': {
       const folderPath = path.resolve(projectRoot, (input as string).replace(/\/$/, ''));
-      files = await glob('**/*.json', {
+      files = await glob(TRANSLATION_FILE_GLOB, {
         cwd: folderPath,
         absolute: true,
       });
@@ -71,7 +76,7 @@ export async function resolveTranslationPaths(
       const filePath = path.resolve(projectRoot, input as string);
       // Check if it's actually a directory (user omitted trailing slash)
       if (isDirectory(filePath)) {
-        files = await glob('**/*.json', {
+        files = await glob(TRANSLATION_FILE_GLOB, {
           cwd: filePath,
           absolute: true,
         });
@@ -88,7 +93,8 @@ export async function resolveTranslationPaths(
 
 /**
  * Auto-discover translations from a base directory.
- * Scans for locale folders (e.g., en/, es/, fr/) and their JSON files.
+ * Scans for locale folders (e.g., en/, es/, fr/) and their translation files
+ * (JSON, JSON5, YAML or TOML).
  * Returns both discovered locales and their file mappings.
  */
 export async function autoDiscoverTranslations(
@@ -120,7 +126,7 @@ export async function autoDiscoverTranslations(
       }
 
       const localePath = path.join(absoluteBaseDir, locale);
-      const files = await glob('**/*.json', {
+      const files = await glob(TRANSLATION_FILE_GLOB, {
         cwd: localePath,
         absolute: true,
       });
@@ -129,10 +135,10 @@ export async function autoDiscoverTranslations(
         discoveredLocales.push(locale);
         translations[locale] = files.sort((a, b) => a.localeCompare(b));
       }
-    } else if (entry.isFile() && entry.name.endsWith('.json')) {
-      // Root-level JSON files (e.g., en.json, es.json)
+    } else if (entry.isFile() && isTranslationFile(entry.name)) {
+      // Root-level files (e.g., en.json, es.yaml)
       // Extract locale from filename
-      const locale = path.basename(entry.name, '.json');
+      const locale = stripTranslationExtension(entry.name);
 
       // If locales were configured, only include matching ones
       if (configuredLocales && configuredLocales.length > 0) {
@@ -185,6 +191,144 @@ export async function resolveTranslationsConfig(
   return { locales, translations };
 }
 
+/**
+ * Determine the base directory for each locale (used for namespace calculation).
+ * - Auto-discovery: `<baseDir>/<locale>`
+ * - Folder: the folder itself
+ * - File: the file's parent directory
+ * - Glob: the non-glob prefix
+ * - Array: the translations base directory
+ */
+export function resolveLocaleBaseDirs(
+  config: TranslationsConfig | undefined,
+  locales: string[],
+  projectRoot: string
+): Record<string, string> {
+  const isAutoDiscovery = !config || typeof config === 'string';
+  const translationsBaseDir = typeof config === 'string'
+    ? path.resolve(projectRoot, config.replace(/\/$/, ''))
+    : path.resolve(projectRoot, DEFAULT_I18N_DIR);
+
+  const localeBaseDirs: Record<string, string> = {};
+  for (const locale of locales) {
+    if (isAutoDiscovery) {
+      // For auto-discovery, locale folder is under the base dir
+      localeBaseDirs[locale] = path.join(translationsBaseDir, locale);
+    } else if (typeof config === 'object' && config[locale]) {
+      // For explicit config, determine base from the config value
+      const localeConfig = config[locale];
+      if (typeof localeConfig === 'string') {
+        const pathType = detectPathType(localeConfig);
+        if (pathType === 'folder' || pathType === 'file') {
+          // Use the folder itself or parent of file
+          const resolved = path.resolve(projectRoot, localeConfig.replace(/\/$/, ''));
+          localeBaseDirs[locale] = pathType === 'folder' ? resolved : path.dirname(resolved);
+        } else {
+          // Glob - use the non-glob prefix
+          const baseDir = localeConfig.split('*')[0].replace(/\/$/, '');
+          localeBaseDirs[locale] = path.resolve(projectRoot, baseDir);
+        }
+      } else {
+        // Array - use common parent directory
+        localeBaseDirs[locale] = translationsBaseDir;
+      }
+    } else {
+      localeBaseDirs[locale] = translationsBaseDir;
+    }
+  }
+
+  return localeBaseDirs;
+}
+
+/**
+ * Read and merge translation files into a single tree (Node only).
+ * Applies path-based namespaces the same way the generated loaders do.
+ * Files that fail to parse are skipped (reported through `onError`, warns by default).
+ */
+export function loadTranslationTree(
+  files: string[],
+  localeBaseDir: string | undefined,
+  pathBasedNamespacing: boolean,
+  onError: (file: string, error: unknown) => void = (file, error) => {
+    console.warn(`[ez-i18n] Failed to read translation file: ${file}`, error);
+  }
+): Record<string, unknown> {
+  const contents: Record<string, unknown>[] = [];
+
+  for (const file of files) {
+    try {
+      const content = parseTranslationFile(fs.readFileSync(file, 'utf-8'), file);
+      contents.push(
+        pathBasedNamespacing && localeBaseDir
+          ? wrapWithNamespace(getNamespaceFromPath(file, localeBaseDir), content)
+          : content
+      );
+    } catch (error) {
+      onError(file, error);
+    }
+  }
+
+  return deepMerge({}, ...contents);
+}
+
+/**
+ * Load the merged translation tree for every locale (Node only), using the
+ * same discovery, namespacing and locale rules as the Vite plugin.
+ */
+export async function loadLocaleTrees(
+  config: EzI18nConfig,
+  projectRoot: string,
+  onError?: (locale: string, file: string, error: unknown) => void
+): Promise<{ locales: string[]; trees: Record<string, Record<string, unknown>> }> {
+  const { locales: discoveredLocales, translations } = await resolveTranslationsConfig(
+    config.translations,
+    projectRoot,
+    config.locales
+  );
+  const locales = config.locales && config.locales.length > 0 ? config.locales : discoveredLocales;
+
+  const isAutoDiscovery = !config.translations || typeof config.translations === 'string';
+  const pathBasedNamespacing = config.pathBasedNamespacing ?? isAutoDiscovery;
+  const localeBaseDirs = resolveLocaleBaseDirs(config.translations, locales, projectRoot);
+
+  const trees: Record<string, Record<string, unknown>> = {};
+  for (const locale of locales) {
+    trees[locale] = loadTranslationTree(
+      translations[locale] ?? [],
+      localeBaseDirs[locale],
+      pathBasedNamespacing,
+      onError ? (file, error) => onError(locale, file, error) : undefined
+    );
+  }
+
+  return { locales, trees };
+}
+
+/**
+ * Flatten a translation tree to dot-notation keys.
+ * Only leaf values are included (objects are recursed into, arrays are leaves).
+ *
+ * @example
+ * flattenTranslations({ common: { save: 'Save' } }) // { 'common.save': 'Save' }
+ */
+export function flattenTranslations(
+  tree: Record<string, unknown>,
+  prefix = ''
+): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(tree)) {
+    const fullKey = prefix ? `${prefix}.${key}` : key;
+    if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
+      Object.assign(result, flattenTranslations(value as Record<string, unknown>, fullKey));
+    } else {
+      result[fullKey] = value;
+    }
+  }
+
+  return result;
+}
+
 /**
  * Deep merge translation objects.
  * - Objects are recursively merged
@@ -231,6 +375,70 @@ export function deepMerge<T extends Record<string, unknown>>(
   return result;
 }
 
+/**
+ * Hash the config options that decide what discovery finds
+ */
+function getCacheConfigHash(config: Pick<EzI18nConfig, 'translations' | 'locales'>): string {
+  const fingerprint = JSON.stringify({
+    translations: config.translations ?? null,
+    locales: config.locales ?? null,
+  });
+  return createHash('sha256').update(fingerprint).digest('hex');
+}
+
+/**
+ * Get the directories discovery scans: the base directory for auto-discovery,
+ * otherwise each configured folder and the non-glob prefix of each glob
+ */
+function getDiscoveryRoots(config: TranslationsConfig | undefined, projectRoot: string): string[] {
+  if (!config || typeof config === 'string') {
+    return [path.resolve(projectRoot, (config ?? DEFAULT_I18N_DIR).replace(/\/$/, ''))];
+  }
+
+  const roots = new Set<string>();
+  for (const localePath of Object.values(config)) {
+    for (const entry of Array.isArray(localePath) ? localePath : [localePath]) {
+      const type = detectPathType(entry);
+      const dir = type === 'glob'
+        ? path.resolve(projectRoot, entry.split('*')[0])
+        : path.resolve(projectRoot, entry.replace(/\/$/, ''));
+      // Single files are covered by their mtime
+      if (type !== 'file' || isDirectory(dir)) roots.add(dir);
+    }
+  }
+  return [...roots].sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * List the entries of each root and all of its subdirectories,
+ * so added or removed files and locale folders are detected.
+ * Dot entries and node_modules are skipped (discovery globs never match them).
+ */
+function listDirectories(roots: string[]): Record<string, string[]> {
+  const listing: Record<string, string[]> = {};
+
+  const visit = (dir: string) => {
+    if (listing[dir]) return;
+    let entries: fs.Dirent[];
+    try {
+      entries = fs.readdirSync(dir, { withFileTypes: true });
+    } catch {
+      listing[dir] = [];
+      return;
+    }
+    entries = entries.filter((entry) => !entry.name.startsWith('.') && entry.name !== 'node_modules');
+    listing[dir] = entries
+      .map((entry) => (entry.isDirectory() ? entry.name + '/' : entry.name))
+      .sort((a, b) => a.localeCompare(b));
+    for (const entry of entries) {
+      if (entry.isDirectory()) visit(path.join(dir, entry.name));
+    }
+  };
+
+  for (const root of roots) visit(root);
+  return listing;
+}
+
 /**
  * Load cached translation discovery results
  */
@@ -253,17 +461,33 @@ export function loadCache(projectRoot: string): TranslationCache | null {
 }
 
 /**
- * Save translation discovery results to cache
+ * Save translation discovery results to cache, along with the config
+ * fingerprint, directory listing and file mtimes used to validate it
  */
 export function saveCache(
   projectRoot: string,
-  discovered: Record<string, string[]>
+  discovered: Record<string, string[]>,
+  config: Pick<EzI18nConfig, 'translations' | 'locales'>
 ): void {
   const cachePath = path.join(projectRoot, CACHE_FILE);
 
+  const mtimes: Record<string, number> = {};
+  for (const files of Object.values(discovered)) {
+    for (const file of files) {
+      try {
+        mtimes[file] = fs.statSync(file).mtimeMs;
+      } catch {
+        // Missing file - the cache will fail validation next time
+      }
+    }
+  }
+
   const cache: TranslationCache = {
     version: CACHE_VERSION,
+    configHash: getCacheConfigHash(config),
     discovered,
+    directories: listDirectories(getDiscoveryRoots(config.translations, projectRoot)),
+    mtimes,
     lastScan: new Date().toISOString(),
   };
 
@@ -275,20 +499,30 @@ export function saveCache(
 }
 
 /**
- * Check if cache is still valid (files haven't changed)
+ * Check if cache is still valid: same discovery config, no files or
+ * directories added or removed, and no cached file modified
  */
 export function isCacheValid(
   cache: TranslationCache,
-  projectRoot: string
+  projectRoot: string,
+  config: Pick<EzI18nConfig, 'translations' | 'locales'>
 ): boolean {
-  // Check if all cached files still exist
+  if (cache.configHash !== getCacheConfigHash(config)) return false;
+
+  // Check that all cached files still exist and are unchanged
   for (const files of Object.values(cache.discovered)) {
     for (const file of files) {
-      if (!fs.existsSync(file)) return false;
+      try {
+        if (fs.statSync(file).mtimeMs !== cache.mtimes[file]) return false;
+      } catch {
+        return false;
+      }
     }
   }
 
-  return true;
+  // Check for added or removed files and locale folders
+  const directories = listDirectories(getDiscoveryRoots(config.translations, projectRoot));
+  return JSON.stringify(directories) === JSON.stringify(cache.directories);
 }
 
 /**
@@ -310,7 +544,7 @@ export function toGlobPattern(baseDir: string, projectRoot: string): string {
   const relativePath = path.relative(projectRoot, baseDir).replace(/\\/g, '/');
   // Virtual modules require globs to start with '/' (project root relative)
   // Works for both public/ and non-public directories
-  return `/${relativePath}/**/*.json`;
+  return `/${relativePath}/${TRANSLATION_FILE_GLOB}`;
 }
 
 /**
@@ -362,8 +596,8 @@ export function getNamespaceFromPath(filePath: string, localeDir: string): strin
   // Get relative path from locale directory
   const relative = path.relative(localeDir, filePath);
 
-  // Remove .json extension
-  const withoutExt = relative.replace(/\.json$/i, '');
+  // Remove the file extension (.json, .yaml, .toml, ...)
+  const withoutExt = stripTranslationExtension(relative);
 
   // Convert path separators to dots
   const namespace = withoutExt.replace(/[\\/]/g, '.');
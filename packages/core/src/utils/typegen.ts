@@ -0,0 +1,68 @@
+import type { EzI18nConfig } from '../types';
+import {
+  flattenTranslations,
+  loadTranslationTree,
+  resolveLocaleBaseDirs,
+  resolveTranslationsConfig,
+} from './translations';
+import { getMessageArguments } from '../runtime/icu';
+
+/**
+ * Generate the translation key declaration file content.
+ * Augments TranslationKeyRegistry so t()/tc() only accept known keys
+ * and require params for messages with placeholders.
+ *
+ * @param tree - Merged translation tree for the source locale
+ * @param sourceLocale - Locale the keys were generated from (for the header comment)
+ */
+export function generateKeyTypes(tree: Record<string, unknown>, sourceLocale: string): string {
+  const entries = Object.entries(flattenTranslations(tree))
+    .filter(([, value]) => typeof value === 'string')
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, value]) => {
+      const args = getMessageArguments(value as string);
+      const params = args.length === 0
+        ? 'undefined'
+        : `{ ${args.map((arg) => `${JSON.stringify(arg)}: string | number`).join('; ')} }`;
+      return `      ${JSON.stringify(key)}: ${params};`;
+    });
+
+  return `\
+// Generated by ez-i18n from "${sourceLocale}" translations. Do not edit.
+import '@zachhandley/ez-i18n';
+
+declare module '@zachhandley/ez-i18n' {
+  interface TranslationKeyRegistry {
+    keys: {
+${entries.join('\n')}
+    };
+  }
+}
+
+export {};
+`;
+}
+
+
+/**
+ * Resolve the defaultLocale files from config and generate key types.
+ * Used in astro:config:done, before the Vite plugin has run.
+ */
+export async function generateKeyTypesFromConfig(
+  config: EzI18nConfig,
+  projectRoot: string,
+  pathBasedNamespacing: boolean
+): Promise<string> {
+  const { translations } = await resolveTranslationsConfig(
+    config.translations,
+    projectRoot,
+    config.locales
+  );
+  const localeBaseDirs = resolveLocaleBaseDirs(config.translations, [config.defaultLocale], projectRoot);
+  const tree = loadTranslationTree(
+    translations[config.defaultLocale] ?? [],
+    localeBaseDirs[config.defaultLocale],
+    pathBasedNamespacing
+  );
+  return generateKeyTypes(tree, config.defaultLocale);
+}
@@ -18,10 +18,27 @@ declare module 'ez-i18n:config' {
   export const localeToBCP47: Record<string, string>;
   /** Text direction for each locale ('ltr' or 'rtl') */
   export const localeDirections: Record<string, 'ltr' | 'rtl'>;
+  /** Generated pseudo-locales (also listed in locales) */
+  export const pseudoLocales: string[];
+  /** Ordered fallback locales for each locale (excluding the locale itself) */
+  export const fallbackChains: Record<string, string[]>;
+  /** Namespaces loaded for every request (null = whole locale) */
+  export const namespaces: string[] | null;
+  /** Named format presets for n()/d()/rt()/list() */
+  export const formats: import('@zachhandley/ez-i18n/runtime').FormatPresets;
+  /** What t() returns for a missing key */
+  export const missingKeyStrategy: import('@zachhandley/ez-i18n/runtime').MissingKeyStrategy;
+  /** Where missing keys are reported (null = no reporting) */
+  export const missingKeyBeacon: import('@zachhandley/ez-i18n/runtime').MissingKeyBeaconOptions | null;
+  /** Hostname or `*.` pattern → locale */
+  export const domains: Record<string, string>;
+  /** Routes served under `/{locale}/` and the Astro base (null = cookie-only) */
+  export const prefixRoutes: (Required<import('./types').PrefixRoutesOptions> & { base: string }) | null;
 }
 
 declare module 'ez-i18n:runtime' {
   import type { ReadableAtom } from 'nanostores';
+  import type { Formatters } from '@zachhandley/ez-i18n/runtime';
 
   /** Reactive store containing the current locale */
   export const locale: ReadableAtom<string>;
@@ -29,7 +46,7 @@ declare module 'ez-i18n:runtime' {
   /**
    * Translate a key to the current locale (non-reactive)
    * @param key - Dot-notation key (e.g., 'common.welcome')
-   * @param params - Optional interpolation params for {placeholder} syntax
+   * @param params - Optional interpolation params for {placeholder} and ICU plural/select syntax
    */
   export function t(key: string, params?: Record<string, string | number>): string;
 
@@ -38,7 +55,7 @@ declare module 'ez-i18n:runtime' {
    * Returns a ReadableAtom<string> that updates when translations change.
    *
    * @param key - Static translation key (dot-notation)
-   * @param params - Optional interpolation params for {placeholder} syntax
+   * @param params - Optional interpolation params for {placeholder} and ICU plural/select syntax
    */
   export function tc(
     key: string,
@@ -47,6 +64,7 @@ declare module 'ez-i18n:runtime' {
 
   /**
    * Set the current locale and persist to cookie/localStorage
+   * Loads the locale's translations and updates `<html lang>` and `dir`.
    * @param locale - Locale code to switch to
    * @param options - Cookie name string or options object
    */
@@ -63,7 +81,43 @@ declare module 'ez-i18n:runtime' {
    * @param locale - Initial locale code
    * @param translations - Optional initial translations object
    */
-  export function initLocale(locale: string, translations?: Record<string, unknown>): void;
+  export function initLocale(
+    locale: string,
+    translations?: Record<string, unknown>,
+    namespaces?: string[]
+  ): void;
+
+  /**
+   * Load translation namespaces on demand and merge them into the translations store
+   * @param namespaces - Namespace(s) to load, e.g. 'auth' or ['auth.*', 'settings']
+   * @param locale - Locale to load for (defaults to the current locale)
+   */
+  export function loadNamespace(namespaces: string | string[], locale?: string): Promise<void>;
+  /**
+   * Register a custom missing key handler (null to remove it)
+   * Return a string to use it as the translation, or undefined to apply the configured strategy.
+   */
+  export function setMissingKeyHandler(handler: import('@zachhandley/ez-i18n/runtime').MissingKeyHandler | null): void;
+  /** Format a number for the current locale (preset name or Intl.NumberFormat options) */
+  export const n: Formatters['n'];
+  /** Format a date for the current locale (preset name or Intl.DateTimeFormat options) */
+  export const d: Formatters['d'];
+  /** Format relative time for the current locale, e.g. rt(-1, 'day') */
+  export const rt: Formatters['rt'];
+  /** Format a list for the current locale, e.g. list(['a', 'b']) */
+  export const list: Formatters['list'];
+  /** Localized display name of a language/region/script/currency code */
+  export const displayName: Formatters['displayName'];
+  /** Reactive n() - updates when the locale changes */
+  export function nc(...args: Parameters<Formatters['n']>): ReadableAtom<string>;
+  /** Reactive d() - updates when the locale changes */
+  export function dc(...args: Parameters<Formatters['d']>): ReadableAtom<string>;
+  /** Reactive rt() - updates when the locale changes */
+  export function rtc(...args: Parameters<Formatters['rt']>): ReadableAtom<string>;
+  /** Reactive list() - updates when the locale changes */
+  export function listc(...args: Parameters<Formatters['list']>): ReadableAtom<string>;
+  /** Reactive displayName() - updates when the locale changes */
+  export function displayNamec(...args: Parameters<Formatters['displayName']>): ReadableAtom<string>;
 }
 
 declare module 'ez-i18n:translations' {
@@ -73,10 +127,37 @@ declare module 'ez-i18n:translations' {
     () => Promise<{ default?: Record<string, unknown> } | Record<string, unknown>>
   >;
 
+  /** Locale → URL of the content-hashed translation bundle for public/ translations (empty in dev) */
+  export const translationBundles: Record<string, string>;
+
   /**
-   * Load translations for a specific locale
+   * Load translations for a specific locale, merged with its fallback chain
    * @param locale - Locale code to load translations for
+   * @param namespaces - Only load these namespaces (e.g. ['auth', 'common.*'])
    * @returns Translations object or empty object if not found
    */
-  export function loadTranslations(locale: string): Promise<Record<string, unknown>>;
+  export function loadTranslations(
+    locale: string,
+    namespaces?: string | string[]
+  ): Promise<Record<string, unknown>>;
+
+  /**
+   * Load the precompiled messages of a locale (merged with its fallback chain)
+   * @returns Key → compiled message map, or null outside SSR builds with `precompile`
+   */
+  export function loadCompiledMessages(
+    locale: string
+  ): Promise<import('@zachhandley/ez-i18n/runtime').CompiledMessages | null>;
+}
+
+declare module 'ez-i18n:missing-handler' {
+  /** Default export of the `missingKeyHandler` module (null when not configured) */
+  const missingKeyHandler: import('./types').MissingKeyHandler | null;
+  export default missingKeyHandler;
+}
+
+declare module 'ez-i18n:resolvers' {
+  /** Ordered locale detection sources, custom resolvers included (server-only) */
+  const resolvers: import('./types').LocaleResolver[];
+  export default resolvers;
 }
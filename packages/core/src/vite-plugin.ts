@@ -1,5 +1,10 @@
 import type { Plugin, ResolvedConfig, ViteDevServer } from 'vite';
-import type { EzI18nConfig, ResolvedEzI18nConfig } from './types';
+import type {
+  BuiltinLocaleResolver,
+  EzI18nConfig,
+  PseudoLocalizeOptions,
+  ResolvedEzI18nConfig,
+} from './types';
 import {
   resolveTranslationsConfig,
   toRelativeImport,
@@ -13,19 +18,39 @@ import {
   isInPublicDir,
   toPublicUrl,
   getLocaleBaseDirForNamespace,
+  resolveLocaleBaseDirs,
+  loadTranslationTree,
+  deepMerge,
 } from './utils/translations';
+import { generateCompiledMessagesModule } from './utils/compile';
+import { pseudoLocalizeTranslations } from './runtime/pseudo';
+import { generateKeyTypes } from './utils/typegen';
+import { isTranslationFile, parseTranslationFile } from './parsers';
 import {
   buildLocaleNames,
   buildLocaleToBCP47,
   buildLocaleDirections,
+  buildFallbackChains,
+  getLocaleInfo,
 } from './utils/locales';
 import * as path from 'node:path';
+import * as fs from 'node:fs';
+import { createHash } from 'node:crypto';
 
 const VIRTUAL_CONFIG = 'ez-i18n:config';
 const VIRTUAL_RUNTIME = 'ez-i18n:runtime';
 const VIRTUAL_TRANSLATIONS = 'ez-i18n:translations';
+/** Default export: the ordered locale resolvers (server-only) */
+const VIRTUAL_RESOLVERS = 'ez-i18n:resolvers';
+/** Default export of the missingKeyHandler module (null without one) */
+const VIRTUAL_MISSING_HANDLER = 'ez-i18n:missing-handler';
+/** Precompiled messages of one locale: ez-i18n:compiled/<locale> */
+const VIRTUAL_COMPILED_PREFIX = 'ez-i18n:compiled/';
 const RESOLVED_PREFIX = '\0';
 
+/** Custom HMR event carrying a locale's re-merged translations */
+const HMR_UPDATE_EVENT = 'ez-i18n:translations-update';
+
 interface TranslationInfo {
   locale: string;
   files: string[];
@@ -35,188 +60,362 @@ interface TranslationInfo {
   localeBaseDir?: string;
   /** Whether files are in the public directory (use fetch instead of import) */
   isPublic?: boolean;
+  /** Pseudo-locale generated from defaultLocale (no files of its own) */
+  pseudo?: PseudoLocalizeOptions;
+}
+
+/**
+ * Shared state between the Astro integration and the Vite plugin
+ */
+export interface VitePluginOptions {
+  /** Absolute path of the injected translation key types (set in astro:config:done) */
+  keyTypesFile?: string;
+  /** Locale → URL of the hashed translation bundles emitted by the build */
+  translationBundles?: Record<string, string>;
+  /** Resolved locales, including auto-discovered ones (set once translations are resolved) */
+  locales?: string[];
+  /** Astro `base` (set in astro:config:done; Vite's base is '/' in dev) */
+  base?: string;
 }
 
 /**
  * Vite plugin that provides virtual modules for ez-i18n
  */
-export function vitePlugin(config: EzI18nConfig): Plugin {
+export function vitePlugin(config: EzI18nConfig, options: VitePluginOptions = {}): Plugin {
   let viteConfig: ResolvedConfig;
   let isDev = false;
   let resolved: ResolvedEzI18nConfig;
   let translationInfo: Map<string, TranslationInfo> = new Map();
 
-  return {
-    name: 'ez-i18n-vite',
-    enforce: 'pre',
-
-    configResolved(resolvedConfig) {
-      viteConfig = resolvedConfig;
-      isDev = resolvedConfig.command === 'serve';
-    },
-
-    async buildStart() {
-      const projectRoot = viteConfig.root;
-
-      // Determine if path-based namespacing should be enabled
-      // Default to true when using folder-based or auto-discovery config
-      const isAutoDiscovery = !config.translations || typeof config.translations === 'string';
-      const pathBasedNamespacing = config.pathBasedNamespacing ?? isAutoDiscovery;
-
-      // Calculate base translation directory
-      const translationsBaseDir = typeof config.translations === 'string'
-        ? path.resolve(projectRoot, config.translations.replace(/\/$/, ''))
-        : path.resolve(projectRoot, './public/i18n');
-
-      // Try to use cache in production builds
-      let useCache = false;
-      if (!isDev) {
-        const cache = loadCache(projectRoot);
-        if (cache && isCacheValid(cache, projectRoot)) {
-          // Build locale base dirs
-          const localeBaseDirs: Record<string, string> = {};
-          for (const locale of Object.keys(cache.discovered)) {
-            localeBaseDirs[locale] = path.join(translationsBaseDir, locale);
-          }
-
-          // Use cached discovery
-          resolved = {
-            locales: config.locales || Object.keys(cache.discovered),
-            defaultLocale: config.defaultLocale,
-            cookieName: config.cookieName ?? 'ez-locale',
-            translations: cache.discovered,
-            pathBasedNamespacing,
-            localeBaseDirs,
-            cookieDomain: config.cookieDomain,
-          };
-          useCache = true;
-
-          // Populate translationInfo from cache
-          for (const [locale, files] of Object.entries(cache.discovered)) {
-            const filesInPublic = files.length > 0 && isInPublicDir(files[0], projectRoot);
-            translationInfo.set(locale, {
-              locale,
-              files,
-              localeBaseDir: localeBaseDirs[locale],
-              isPublic: filesInPublic,
-            });
-          }
-        }
-      }
+  /**
+   * Read the translation tree of a locale from disk (pseudo-locales are generated
+   * from the defaultLocale)
+   */
+  function loadLocaleTree(locale: string): Record<string, unknown> {
+    const info = translationInfo.get(locale);
+    if (!info) return {};
+    if (info.pseudo) {
+      return pseudoLocalizeTranslations(loadLocaleTree(resolved.defaultLocale), info.pseudo);
+    }
+    return loadTranslationTree(info.files, info.localeBaseDir, resolved.pathBasedNamespacing);
+  }
 
-      if (!useCache) {
-        // Resolve translations config
-        const { locales, translations } = await resolveTranslationsConfig(
-          config.translations,
-          projectRoot,
-          config.locales
-        );
+  /**
+   * Regenerate translation key types from the current defaultLocale files
+   */
+  function writeKeyTypes(): void {
+    if (!options.keyTypesFile || config.typedKeys === false) return;
+    const info = translationInfo.get(resolved.defaultLocale);
+    if (!info) return;
+
+    const tree = loadTranslationTree(info.files, info.localeBaseDir, resolved.pathBasedNamespacing);
+    try {
+      fs.writeFileSync(options.keyTypesFile, generateKeyTypes(tree, resolved.defaultLocale));
+    } catch (error) {
+      console.warn('[ez-i18n] Failed to write translation key types:', error);
+    }
+  }
 
-        // Merge with configured locales (config takes precedence if specified)
-        const finalLocales = config.locales && config.locales.length > 0
-          ? config.locales
-          : locales;
+  /**
+   * Check if a file is (or could be, for newly added files) one of our translation files
+   */
+  function isTranslationSource(file: string): boolean {
+    const normalized = path.resolve(file);
+    for (const info of translationInfo.values()) {
+      if (info.files.some((f) => path.resolve(f) === normalized)) return true;
+      if (info.localeBaseDir && normalized.startsWith(path.resolve(info.localeBaseDir) + path.sep)) return true;
+    }
+    return false;
+  }
 
+  /**
+   * Discover translation files and resolve the locale list
+   * Runs on buildStart, and again in dev when the discovered locale list may have changed.
+   */
+  async function discoverTranslations(): Promise<void> {
+    translationInfo.clear();
+    const projectRoot = viteConfig.root;
+
+    // Determine if path-based namespacing should be enabled
+    // Default to true when using folder-based or auto-discovery config
+    const isAutoDiscovery = !config.translations || typeof config.translations === 'string';
+    const pathBasedNamespacing = config.pathBasedNamespacing ?? isAutoDiscovery;
+
+    // Calculate base translation directory
+    const translationsBaseDir = typeof config.translations === 'string'
+      ? path.resolve(projectRoot, config.translations.replace(/\/$/, ''))
+      : path.resolve(projectRoot, './public/i18n');
+
+    // Try to use cache in production builds
+    let useCache = false;
+    if (!isDev) {
+      const cache = loadCache(projectRoot);
+      if (cache && isCacheValid(cache, projectRoot, config)) {
         // Build locale base dirs
         const localeBaseDirs: Record<string, string> = {};
-        for (const locale of finalLocales) {
-          if (isAutoDiscovery) {
-            // For auto-discovery, locale folder is under the base dir
-            localeBaseDirs[locale] = path.join(translationsBaseDir, locale);
-          } else if (typeof config.translations === 'object' && config.translations[locale]) {
-            // For explicit config, determine base from the config value
-            const localeConfig = config.translations[locale];
-            if (typeof localeConfig === 'string') {
-              const pathType = detectPathType(localeConfig);
-              if (pathType === 'folder' || pathType === 'file') {
-                // Use the folder itself or parent of file
-                const resolved = path.resolve(projectRoot, localeConfig.replace(/\/$/, ''));
-                localeBaseDirs[locale] = pathType === 'folder' ? resolved : path.dirname(resolved);
-              } else {
-                // Glob - use the non-glob prefix
-                const baseDir = localeConfig.split('*')[0].replace(/\/$/, '');
-                localeBaseDirs[locale] = path.resolve(projectRoot, baseDir);
-              }
-            } else {
-              // Array - use common parent directory
-              localeBaseDirs[locale] = translationsBaseDir;
-            }
-          } else {
-            localeBaseDirs[locale] = translationsBaseDir;
-          }
+        for (const locale of Object.keys(cache.discovered)) {
+          localeBaseDirs[locale] = path.join(translationsBaseDir, locale);
         }
 
+        // Use cached discovery
+        const pseudoLocales = resolvePseudoLocales(config.pseudoLocale);
+        const cachedLocales = withPseudoLocales(config.locales || Object.keys(cache.discovered), pseudoLocales);
         resolved = {
-          locales: finalLocales,
+          locales: cachedLocales,
           defaultLocale: config.defaultLocale,
           cookieName: config.cookieName ?? 'ez-locale',
-          translations,
+          translations: cache.discovered,
           pathBasedNamespacing,
           localeBaseDirs,
           cookieDomain: config.cookieDomain,
+          namespaces: config.namespaces,
+          formats: config.formats ?? {},
+          onMissingKey: config.onMissingKey ?? 'key',
+          missingKeyBeacon: resolveMissingKeyBeacon(config.missingKeyBeacon),
+          pseudoLocales,
+          staticVariants: resolveStaticVariants(config.staticVariants),
+          precompile: config.precompile ?? false,
+          resolvers: resolveResolvers(config.resolvers, config.domains),
+          domains: resolveDomains(config.domains),
+          prefixRoutes: resolvePrefixRoutes(config.prefixRoutes),
+          sitemap: resolveSitemap(config.sitemap),
+          fallbackChains: buildFallbackChains(cachedLocales, config.defaultLocale, config.fallbackLocale),
         };
+        useCache = true;
 
-        // Build translation info for each locale
-        for (const locale of finalLocales) {
-          const files = translations[locale] || [];
-          // Check if files are in public directory
+        // Populate translationInfo from cache
+        for (const [locale, files] of Object.entries(cache.discovered)) {
           const filesInPublic = files.length > 0 && isInPublicDir(files[0], projectRoot);
-
-          const info: TranslationInfo = {
+          translationInfo.set(locale, {
             locale,
             files,
             localeBaseDir: localeBaseDirs[locale],
             isPublic: filesInPublic,
-          };
-
-          // For dev mode, determine if we can use import.meta.glob (not for public files)
-          if (isDev && config.translations && !filesInPublic) {
-            const localeConfig = typeof config.translations === 'string'
-              ? path.join(config.translations, locale) + '/'  // Trailing slash ensures detectPathType returns 'folder'
-              : config.translations[locale];
-
-            if (localeConfig && typeof localeConfig === 'string') {
-              const pathType = detectPathType(localeConfig);
-              if (pathType === 'folder' || pathType === 'glob') {
-                // Can use import.meta.glob for HMR (returns null for public files)
-                const basePath = pathType === 'glob'
-                  ? localeConfig
-                  : toGlobPattern(path.resolve(projectRoot, localeConfig), projectRoot);
-                info.globPattern = basePath;
-              }
-            }
-          }
+          });
+        }
+        for (const locale of Object.keys(pseudoLocales)) {
+          translationInfo.set(locale, { locale, files: [], pseudo: pseudoLocales[locale] });
+        }
+      }
+    }
+
+    if (!useCache) {
+      // Resolve translations config
+      const { locales, translations } = await resolveTranslationsConfig(
+        config.translations,
+        projectRoot,
+        config.locales
+      );
+
+      // Merge with configured locales (config takes precedence if specified)
+      const pseudoLocales = resolvePseudoLocales(config.pseudoLocale);
+      const finalLocales = withPseudoLocales(
+        config.locales && config.locales.length > 0 ? config.locales : locales,
+        pseudoLocales
+      );
 
-          translationInfo.set(locale, info);
+      // Build locale base dirs
+      const localeBaseDirs = resolveLocaleBaseDirs(config.translations, finalLocales, projectRoot);
+
+      resolved = {
+        locales: finalLocales,
+        defaultLocale: config.defaultLocale,
+        cookieName: config.cookieName ?? 'ez-locale',
+        translations,
+        pathBasedNamespacing,
+        localeBaseDirs,
+        cookieDomain: config.cookieDomain,
+        namespaces: config.namespaces,
+        formats: config.formats ?? {},
+        onMissingKey: config.onMissingKey ?? 'key',
+        missingKeyBeacon: resolveMissingKeyBeacon(config.missingKeyBeacon),
+        pseudoLocales,
+        staticVariants: resolveStaticVariants(config.staticVariants),
+        precompile: config.precompile ?? false,
+        resolvers: resolveResolvers(config.resolvers, config.domains),
+        domains: resolveDomains(config.domains),
+        prefixRoutes: resolvePrefixRoutes(config.prefixRoutes),
+        sitemap: resolveSitemap(config.sitemap),
+        fallbackChains: buildFallbackChains(finalLocales, config.defaultLocale, config.fallbackLocale),
+      };
+
+      // Build translation info for each locale
+      for (const locale of finalLocales) {
+        // Pseudo-locales are generated from defaultLocale
+        if (pseudoLocales[locale]) {
+          translationInfo.set(locale, { locale, files: [], pseudo: pseudoLocales[locale] });
+          continue;
         }
 
-        // Save cache for future builds
-        if (!isDev && Object.keys(translations).length > 0) {
-          saveCache(projectRoot, translations);
+        const files = translations[locale] || [];
+        // Check if files are in public directory
+        const filesInPublic = files.length > 0 && isInPublicDir(files[0], projectRoot);
+
+        const info: TranslationInfo = {
+          locale,
+          files,
+          localeBaseDir: localeBaseDirs[locale],
+          isPublic: filesInPublic,
+        };
+
+        // For dev mode, determine if we can use import.meta.glob (not for public files)
+        if (isDev && config.translations && !filesInPublic) {
+          const localeConfig = typeof config.translations === 'string'
+            ? path.join(config.translations, locale) + '/'  // Trailing slash ensures detectPathType returns 'folder'
+            : config.translations[locale];
+
+          if (localeConfig && typeof localeConfig === 'string') {
+            const pathType = detectPathType(localeConfig);
+            if (pathType === 'folder' || pathType === 'glob') {
+              // Can use import.meta.glob for HMR (returns null for public files)
+              const basePath = pathType === 'glob'
+                ? localeConfig
+                : toGlobPattern(path.resolve(projectRoot, localeConfig), projectRoot);
+              info.globPattern = basePath;
+            }
+          }
         }
+
+        translationInfo.set(locale, info);
       }
 
-      // Validate defaultLocale
-      if (!resolved.locales.includes(resolved.defaultLocale)) {
-        console.warn(
-          `[ez-i18n] defaultLocale "${resolved.defaultLocale}" not found in locales: [${resolved.locales.join(', ')}]`
-        );
+      // Save cache for future builds
+      if (!isDev && Object.keys(translations).length > 0) {
+        saveCache(projectRoot, translations, config);
       }
+    }
+
+    options.locales = resolved.locales;
+
+    // Validate defaultLocale
+    if (!resolved.locales.includes(resolved.defaultLocale)) {
+      console.warn(
+        `[ez-i18n] defaultLocale "${resolved.defaultLocale}" not found in locales: [${resolved.locales.join(', ')}]`
+      );
+    }
+
+    // Validate fallback locales
+    const unknownFallbacks = new Set(
+      Object.values(resolved.fallbackChains)
+        .flat()
+        .filter((locale) => !resolved.locales.includes(locale))
+    );
+    if (unknownFallbacks.size > 0) {
+      console.warn(
+        `[ez-i18n] fallbackLocale references unknown locales: [${[...unknownFallbacks].join(', ')}]`
+      );
+    }
+
+    // Validate domain locales
+    const unknownDomainLocales = new Set(
+      Object.values(resolved.domains).filter((locale) => !resolved.locales.includes(locale))
+    );
+    if (unknownDomainLocales.size > 0) {
+      console.warn(
+        `[ez-i18n] domains references unknown locales: [${[...unknownDomainLocales].join(', ')}]`
+      );
+    }
+  }
+
+  /**
+   * Push a locale's re-merged translations to the browser over HMR
+   * (applied in place by the dev translations module)
+   */
+  function sendTranslationUpdate(server: ViteDevServer, locale: string): void {
+    const mod = server.moduleGraph.getModuleById(RESOLVED_PREFIX + VIRTUAL_TRANSLATIONS);
+    if (mod) server.moduleGraph.invalidateModule(mod);
+
+    const info = translationInfo.get(locale);
+    if (!info) return;
+
+    // Keep the current translations while a file is mid-edit (e.g. invalid YAML)
+    let failed = false;
+    const translations = loadTranslationTree(info.files, info.localeBaseDir, resolved.pathBasedNamespacing, (file, error) => {
+      failed = true;
+      console.warn(`[ez-i18n] Failed to read translation file: ${file}`, error);
+    });
+    if (failed) return;
+
+    server.ws.send({
+      type: 'custom',
+      event: HMR_UPDATE_EVENT,
+      data: { locale, translations },
+    });
+  }
+
+  /**
+   * Re-run discovery and fully reload if the locale list changed
+   * (only possible with auto-discovery and no explicit `locales`)
+   * @returns Whether the locale list changed
+   */
+  async function reloadIfLocalesChanged(server: ViteDevServer): Promise<boolean> {
+    const isAutoDiscovery = !config.translations || typeof config.translations === 'string';
+    if (!isAutoDiscovery || (config.locales && config.locales.length > 0)) return false;
+
+    const previous = resolved.locales.join(',');
+    await discoverTranslations();
+    if (resolved.locales.join(',') === previous) return false;
+
+    for (const id of [VIRTUAL_CONFIG, VIRTUAL_RUNTIME, VIRTUAL_TRANSLATIONS]) {
+      const mod = server.moduleGraph.getModuleById(RESOLVED_PREFIX + id);
+      if (mod) server.moduleGraph.invalidateModule(mod);
+    }
+    writeKeyTypes();
+    server.ws.send({ type: 'full-reload', path: '*' });
+    return true;
+  }
+
+  return {
+    name: 'ez-i18n-vite',
+    enforce: 'pre',
+
+    configResolved(resolvedConfig) {
+      viteConfig = resolvedConfig;
+      isDev = resolvedConfig.command === 'serve';
+    },
+
+    async buildStart() {
+      await discoverTranslations();
+    },
+
+    // Compile YAML/JSON5/TOML translation files to JSON modules (Vite handles .json itself)
+    transform(code, id) {
+      const file = id.split('?')[0];
+      if (!isTranslationFile(file) || file.endsWith('.json')) return null;
+      if (!isTranslationSource(file)) return null;
+
+      return {
+        code: `export default ${JSON.stringify(parseTranslationFile(code, file))};`,
+        map: null,
+      };
     },
 
     resolveId(id) {
-      if (id === VIRTUAL_CONFIG || id === VIRTUAL_RUNTIME || id === VIRTUAL_TRANSLATIONS) {
+      if (
+        id === VIRTUAL_CONFIG ||
+        id === VIRTUAL_RUNTIME ||
+        id === VIRTUAL_TRANSLATIONS ||
+        id === VIRTUAL_MISSING_HANDLER ||
+        id === VIRTUAL_RESOLVERS
+      ) {
+        return RESOLVED_PREFIX + id;
+      }
+      if (id.startsWith(VIRTUAL_COMPILED_PREFIX)) {
         return RESOLVED_PREFIX + id;
       }
       return null;
     },
 
-    load(id) {
+    load(id, loadOptions) {
       // ez-i18n:config - Static config values
       if (id === RESOLVED_PREFIX + VIRTUAL_CONFIG) {
         const localeNames = buildLocaleNames(resolved.locales);
         const localeToBCP47 = buildLocaleToBCP47(resolved.locales);
         const localeDirections = buildLocaleDirections(resolved.locales);
+        for (const [locale, options] of Object.entries(resolved.pseudoLocales)) {
+          localeNames[locale] = `Pseudo (${locale})`;
+          localeDirections[locale] = options.rtl ? 'rtl' : 'ltr';
+        }
 
         return `
 export const locales = ${JSON.stringify(resolved.locales)};
@@ -232,115 +431,175 @@ export const localeToBCP47 = ${JSON.stringify(localeToBCP47)};
 /** Text direction for each locale ('ltr' or 'rtl') */
 export const localeDirections = ${JSON.stringify(localeDirections)};
 
+/** Generated pseudo-locales (also listed in locales) */
+export const pseudoLocales = ${JSON.stringify(Object.keys(resolved.pseudoLocales))};
+
 /** Explicit cookie domain override (undefined = auto-detect) */
 export const cookieDomain = ${JSON.stringify(resolved.cookieDomain)};
-`;
-      }
 
-      // ez-i18n:runtime - Runtime exports for Astro files
-      if (id === RESOLVED_PREFIX + VIRTUAL_RUNTIME) {
-        return `
-import { computed } from 'nanostores';
-import { effectiveLocale, translations, setLocale, initLocale } from '@zachhandley/ez-i18n/runtime';
+/** Ordered fallback locales for each locale (excluding the locale itself) */
+export const fallbackChains = ${JSON.stringify(resolved.fallbackChains)};
 
-export { setLocale, initLocale };
-export { effectiveLocale as locale };
+/** Namespaces loaded for every request (null = whole locale) */
+export const namespaces = ${JSON.stringify(resolved.namespaces ?? null)};
 
-/**
- * Get nested value from object using dot notation
- */
-function getNestedValue(obj, path) {
-  const keys = path.split('.');
-  let value = obj;
-  for (const key of keys) {
-    if (value == null || typeof value !== 'object') return undefined;
-    value = value[key];
-  }
-  return value;
-}
+/** Named format presets for n()/d()/rt()/list() */
+export const formats = ${JSON.stringify(resolved.formats)};
 
-/**
- * Interpolate params into string
- */
-function interpolate(str, params) {
-  if (!params) return str;
-  return str.replace(/\\{(\\w+)\\}/g, (match, key) => {
-    return key in params ? String(params[key]) : match;
-  });
-}
+/** What t() returns for a missing key */
+export const missingKeyStrategy = ${JSON.stringify(resolved.onMissingKey)};
 
-/**
- * Translate a key to the current locale (non-reactive)
- * @param key - Dot-notation key (e.g., 'common.welcome')
- * @param params - Optional interpolation params
- */
-export function t(key, params) {
-  const trans = translations.get();
-  const value = getNestedValue(trans, key);
+/** Where missing keys are reported (null = no reporting) */
+export const missingKeyBeacon = ${JSON.stringify(resolved.missingKeyBeacon ?? null)};
 
-  if (typeof value !== 'string') {
-    if (import.meta.env.DEV) {
-      console.warn('[ez-i18n] Missing translation:', key);
-    }
-    return key;
-  }
+/** Hostname or pattern → locale */
+export const domains = ${JSON.stringify(resolved.domains)};
 
-  return interpolate(value, params);
-}
+/** Routes served under /{locale}/, with the Astro base they live under (null = cookie-only) */
+export const prefixRoutes = ${JSON.stringify(resolved.prefixRoutes ? { ...resolved.prefixRoutes, base: options.base ?? viteConfig.base } : null)};
+`;
+      }
 
-/**
- * Create a reactive translation computed (nanostore computed atom)
- * @param key - Dot-notation key (e.g., 'common.welcome')
- * @param params - Optional interpolation params
- */
-export function tc(key, params) {
-  return computed(translations, (trans) => {
-    const value = getNestedValue(trans, key);
+      // ez-i18n:runtime - Runtime exports for Astro files
+      if (id === RESOLVED_PREFIX + VIRTUAL_RUNTIME) {
+        return `
+import {
+  effectiveLocale,
+  setLocale,
+  initLocale,
+  t,
+  tc,
+  n,
+  nc,
+  d,
+  dc,
+  rt,
+  rtc,
+  list,
+  listc,
+  displayName,
+  displayNamec,
+  setLocaleToBCP47,
+  setLocaleDirections,
+  setLocaleDomains,
+  setPrefixRouting,
+  setFormatPresets,
+  loadNamespace,
+  setNamespaceLoader,
+  setMissingKeyStrategy,
+  setMissingKeyHandler,
+  enableMissingKeyBeacon,
+} from '@zachhandley/ez-i18n/runtime';
+import missingKeyHandler from 'ez-i18n:missing-handler';
+import {
+  locales,
+  defaultLocale,
+  localeToBCP47,
+  localeDirections,
+  domains,
+  prefixRoutes,
+  formats,
+  missingKeyStrategy,
+  missingKeyBeacon,
+} from 'ez-i18n:config';
+
+// Register BCP47 tags so ICU plural rules and Intl formatters match the configured locales
+setLocaleToBCP47(localeToBCP47);
+// setLocale() sets <html lang> and dir from these
+setLocaleDirections(localeDirections);
+// Let setLocale({ redirect: true }) navigate to the locale's domain
+setLocaleDomains(domains);
+// Let localizePath() and setLocale({ redirect: true }) use the /{locale}/ routes
+if (prefixRoutes) setPrefixRouting({ ...prefixRoutes, locales, defaultLocale });
+setFormatPresets(formats);
+setMissingKeyStrategy(missingKeyStrategy);
+if (missingKeyHandler) setMissingKeyHandler(missingKeyHandler);
+if (missingKeyBeacon) enableMissingKeyBeacon(missingKeyBeacon);
+
+// Let loadNamespace() fetch namespaces on demand and setLocale() load the new locale
+// (the loaders are imported on first use, or right away in dev for HMR updates)
+const importTranslations = () => import('ez-i18n:translations');
+setNamespaceLoader(async (locale, namespaces) =>
+  (await importTranslations()).loadTranslations(locale, namespaces)
+);
+if (import.meta.hot) importTranslations();
+
+export { setLocale, initLocale, t, tc, loadNamespace, setMissingKeyHandler };
+export { n, nc, d, dc, rt, rtc, list, listc, displayName, displayNamec };
+export { effectiveLocale as locale };
+`;
+      }
 
-    if (typeof value !== 'string') {
-      if (import.meta.env.DEV) {
-        console.warn('[ez-i18n] Missing translation:', key);
+      // ez-i18n:resolvers - Ordered locale detection sources (custom resolvers stay on the server)
+      if (id === RESOLVED_PREFIX + VIRTUAL_RESOLVERS) {
+        if (!loadOptions?.ssr) {
+          this.error(`${VIRTUAL_RESOLVERS} is server-only (locale resolvers run in the middleware)`);
+        }
+        return typeof resolved.resolvers === 'string'
+          ? getDefaultReexport(resolved.resolvers, viteConfig.root)
+          : `export default ${JSON.stringify(resolved.resolvers)};`;
       }
-      return key;
-    }
 
-    return interpolate(value, params);
-  });
-}
-`;
+      // ez-i18n:missing-handler - The missingKeyHandler module's default export
+      if (id === RESOLVED_PREFIX + VIRTUAL_MISSING_HANDLER) {
+        return getDefaultReexport(config.missingKeyHandler, viteConfig.root);
       }
 
       // ez-i18n:translations - Translation loaders
       if (id === RESOLVED_PREFIX + VIRTUAL_TRANSLATIONS) {
-        return isDev
-          ? generateDevTranslationsModule(translationInfo, viteConfig.root, resolved.pathBasedNamespacing)
-          : generateBuildTranslationsModule(translationInfo, viteConfig.root, resolved.pathBasedNamespacing);
+        if (isDev) {
+          return generateDevTranslationsModule(translationInfo, viteConfig.root, resolved);
+        }
+
+        // Merge each public locale into one content-hashed asset
+        const bundles: Record<string, string> = {};
+        for (const [locale, info] of translationInfo) {
+          if (!info.isPublic || info.files.length === 0) continue;
+          const source = JSON.stringify(
+            loadTranslationTree(info.files, info.localeBaseDir, resolved.pathBasedNamespacing)
+          );
+          const hash = createHash('sha256').update(source).digest('hex').slice(0, 8);
+          const fileName = `${viteConfig.build.assetsDir}/i18n/${locale}.${hash}.json`;
+          this.emitFile({ type: 'asset', fileName, source });
+          bundles[locale] = viteConfig.base.replace(/\/?$/, '/') + fileName;
+        }
+        options.translationBundles = bundles;
+
+        // Precompiled messages are only used by SSR (the client keeps loading plain trees)
+        const precompile = resolved.precompile && Boolean(loadOptions?.ssr);
+        return generateBuildTranslationsModule(translationInfo, viteConfig.root, resolved, bundles, precompile);
+      }
+
+      // ez-i18n:compiled/<locale> - Precompiled messages (merged with the fallback chain)
+      if (id.startsWith(RESOLVED_PREFIX + VIRTUAL_COMPILED_PREFIX)) {
+        const locale = id.slice((RESOLVED_PREFIX + VIRTUAL_COMPILED_PREFIX).length);
+        const chain = [locale, ...(resolved.fallbackChains[locale] ?? [])];
+        const trees = chain.map((l) => loadLocaleTree(l));
+        // Merge lowest priority first so the requested locale wins
+        return generateCompiledMessagesModule(deepMerge({}, ...trees.reverse()));
       }
 
       return null;
     },
 
     // HMR support for dev mode
-    handleHotUpdate({ file, server }) {
+    handleHotUpdate({ file, server, modules }) {
       if (!isDev) return;
 
-      // Only process JSON files
-      if (!file.endsWith('.json')) return;
+      // Only process translation files
+      if (!isTranslationFile(file)) return;
 
       // Check if the changed file is a translation file
       for (const info of translationInfo.values()) {
         if (info.files.includes(file)) {
-          // Invalidate the virtual translations module
-          const mod = server.moduleGraph.getModuleById(RESOLVED_PREFIX + VIRTUAL_TRANSLATIONS);
-          if (mod) {
-            server.moduleGraph.invalidateModule(mod);
-            // Full reload to ensure translations are updated everywhere
-            server.ws.send({
-              type: 'full-reload',
-              path: '*',
-            });
-          }
-          break;
+          if (info.locale === resolved.defaultLocale) writeKeyTypes();
+          sendTranslationUpdate(server, info.locale);
+
+          // Skip Vite's own update for modules only imported by the virtual translations
+          // module - it has no HMR boundary, so it would trigger a full reload
+          return modules.filter((mod) =>
+            [...mod.importers].some((importer) => importer.id !== RESOLVED_PREFIX + VIRTUAL_TRANSLATIONS)
+          );
         }
       }
     },
@@ -393,8 +652,8 @@ export function tc(key, params) {
       }
 
       // Handle new translation files
-      server.watcher.on('add', (file) => {
-        if (!file.endsWith('.json')) return;
+      server.watcher.on('add', async (file) => {
+        if (!isTranslationFile(file)) return;
 
         // Find which locale this file belongs to by checking watched directories
         let locale: string | undefined;
@@ -405,7 +664,11 @@ export function tc(key, params) {
           }
         }
 
-        if (!locale || !translationInfo.has(locale)) return;
+        if (!locale || !translationInfo.has(locale)) {
+          // Possibly a new locale folder
+          await reloadIfLocalesChanged(server);
+          return;
+        }
 
         // Add file to translationInfo
         const info = translationInfo.get(locale)!;
@@ -413,18 +676,14 @@ export function tc(key, params) {
           info.files.push(file);
           info.files.sort((a, b) => a.localeCompare(b));
         }
+        if (locale === resolved.defaultLocale) writeKeyTypes();
 
-        // Invalidate and reload
-        const mod = server.moduleGraph.getModuleById(RESOLVED_PREFIX + VIRTUAL_TRANSLATIONS);
-        if (mod) {
-          server.moduleGraph.invalidateModule(mod);
-          server.ws.send({ type: 'full-reload', path: '*' });
-        }
+        sendTranslationUpdate(server, locale);
       });
 
       // Handle deleted translation files
-      server.watcher.on('unlink', (file) => {
-        if (!file.endsWith('.json')) return;
+      server.watcher.on('unlink', async (file) => {
+        if (!isTranslationFile(file)) return;
 
         // Find and remove from translationInfo
         for (const info of translationInfo.values()) {
@@ -432,12 +691,11 @@ export function tc(key, params) {
           if (index !== -1) {
             info.files.splice(index, 1);
 
-            // Invalidate and reload
-            const mod = server.moduleGraph.getModuleById(RESOLVED_PREFIX + VIRTUAL_TRANSLATIONS);
-            if (mod) {
-              server.moduleGraph.invalidateModule(mod);
-              server.ws.send({ type: 'full-reload', path: '*' });
-            }
+            // The last file of a discovered locale may remove the locale itself
+            if (info.files.length === 0 && await reloadIfLocalesChanged(server)) return;
+
+            if (info.locale === resolved.defaultLocale) writeKeyTypes();
+            sendTranslationUpdate(server, info.locale);
             break;
           }
         }
@@ -445,18 +703,13 @@ export function tc(key, params) {
 
       // Handle modified translation files (needed for public/ files which don't trigger handleHotUpdate)
       server.watcher.on('change', (file) => {
-        if (!file.endsWith('.json')) return;
+        if (!isTranslationFile(file)) return;
 
-        // Check if the changed file is a translation file
+        // Check if the changed file is a public translation file (others go through handleHotUpdate)
         for (const info of translationInfo.values()) {
-          if (info.files.includes(file)) {
-            // Invalidate the virtual translations module
-            const mod = server.moduleGraph.getModuleById(RESOLVED_PREFIX + VIRTUAL_TRANSLATIONS);
-            if (mod) {
-              server.moduleGraph.invalidateModule(mod);
-              // Full reload to ensure translations are updated everywhere
-              server.ws.send({ type: 'full-reload', path: '*' });
-            }
+          if (info.isPublic && info.files.includes(file)) {
+            if (info.locale === resolved.defaultLocale) writeKeyTypes();
+            sendTranslationUpdate(server, info.locale);
             break;
           }
         }
@@ -473,11 +726,14 @@ export function tc(key, params) {
 function generateDevTranslationsModule(
   translationInfo: Map<string, TranslationInfo>,
   projectRoot: string,
-  pathBasedNamespacing: boolean
+  resolved: ResolvedEzI18nConfig
 ): string {
+  const { pathBasedNamespacing } = resolved;
   const imports: string[] = [];
   const loaderEntries: string[] = [];
   let needsPublicLoader = false;
+  let needsFileParser = false;
+  let needsPseudoLocalize = false;
 
   // Add deepMerge inline for runtime merging
   imports.push(getDeepMergeCode());
@@ -488,12 +744,16 @@ function generateDevTranslationsModule(
   }
 
   for (const [locale, info] of translationInfo) {
-    if (info.files.length === 0) {
+    if (info.pseudo) {
+      needsPseudoLocalize = true;
+      loaderEntries.push(getPseudoLoaderEntry(locale, info.pseudo));
+    } else if (info.files.length === 0) {
       // No files - return empty object
       loaderEntries.push(`  ${JSON.stringify(locale)}: async () => ({})`);
     } else if (info.isPublic) {
       // Public directory files - use fetch in browser, fs in SSR
       needsPublicLoader = true;
+      needsFileParser ||= info.files.some((f) => !f.endsWith('.json'));
       if (pathBasedNamespacing && info.localeBaseDir) {
         const fileEntries = info.files.map(f => {
           const url = toPublicUrl(f, projectRoot);
@@ -504,7 +764,7 @@ function generateDevTranslationsModule(
 
         loaderEntries.push(`  ${JSON.stringify(locale)}: async () => {
     const fileInfos = [${fileEntries.join(', ')}];
-    const responses = await Promise.all(fileInfos.map(f => __loadPublicJson(f.url, f.path)));
+    const responses = await Promise.all(fileInfos.map(f => __loadPublicFile(f.url, f.path)));
     const wrapped = responses.map((content, i) => __wrapWithNamespace(fileInfos[i].namespace, content));
     return __deepMerge({}, ...wrapped);
   }`);
@@ -516,14 +776,14 @@ function generateDevTranslationsModule(
         });
         loaderEntries.push(`  ${JSON.stringify(locale)}: async () => {
     const files = [${fileEntries.join(', ')}];
-    const responses = await Promise.all(files.map(f => __loadPublicJson(f.url, f.path)));
+    const responses = await Promise.all(files.map(f => __loadPublicFile(f.url, f.path)));
     if (responses.length === 1) return responses[0];
     return __deepMerge({}, ...responses);
   }`);
       }
     } else if (info.globPattern && pathBasedNamespacing && info.localeBaseDir) {
       // Use import.meta.glob with namespace wrapping
-      const varName = `__${locale}Modules`;
+      const varName = `__${locale.replace(/\W/g, '_')}Modules`;
       const localeBaseDirForNs = getLocaleBaseDirForNamespace(info.localeBaseDir, projectRoot);
       imports.push(
         `const ${varName} = import.meta.glob(${JSON.stringify(info.globPattern)}, { eager: true, import: 'default' });`
@@ -536,7 +796,7 @@ function generateDevTranslationsModule(
     const wrapped = entries.map(([filePath, content]) => {
       // Extract relative path from locale base dir - filePath starts with /
       const normalizedPath = filePath.startsWith('/') ? filePath.slice(1) : filePath;
-      const relativePath = normalizedPath.replace(localeBaseDir + '/', '').replace(/\\.json$/i, '');
+      const relativePath = normalizedPath.replace(localeBaseDir + '/', '').replace(/\\.(json5?|ya?ml|toml)$/i, '');
       const namespace = relativePath.replace(/[\\/]/g, '.').replace(/\\.index$/, '');
       return __wrapWithNamespace(namespace, content);
     });
@@ -544,7 +804,7 @@ function generateDevTranslationsModule(
   }`);
     } else if (info.globPattern) {
       // Use import.meta.glob without namespace wrapping
-      const varName = `__${locale}Modules`;
+      const varName = `__${locale.replace(/\W/g, '_')}Modules`;
       imports.push(
         `const ${varName} = import.meta.glob(${JSON.stringify(info.globPattern)}, { eager: true, import: 'default' });`
       );
@@ -600,24 +860,29 @@ function generateDevTranslationsModule(
 
   // Add public loader helper if needed
   if (needsPublicLoader) {
-    imports.push(getPublicLoaderCode());
+    imports.push(getPublicLoaderCode(needsFileParser));
+  }
+  if (needsPseudoLocalize) {
+    imports.push(PSEUDO_IMPORT);
   }
 
   return `
 ${imports.join('\n')}
 
-export const translationLoaders = {
+const __localeLoaders = {
 ${loaderEntries.join(',\n')}
 };
 
-export async function loadTranslations(locale) {
-  const loader = translationLoaders[locale];
-  if (!loader) {
-    if (import.meta.env.DEV) {
-      console.warn('[ez-i18n] No translations configured for locale:', locale);
-    }
-    return {};
-  }
+${getNamespaceLoaderCode(translationInfo, projectRoot, pathBasedNamespacing)}
+
+// Locale payloads pushed over HMR (newer than the modules the loaders import)
+const __hmrTranslations = {};
+
+async function __loadLocale(locale, namespaces) {
+  if (__hmrTranslations[locale]) return __hmrTranslations[locale];
+
+  const loader = __getLocaleLoader(locale, namespaces);
+  if (!loader) return {};
 
   try {
     return await loader();
@@ -628,6 +893,22 @@ export async function loadTranslations(locale) {
     return {};
   }
 }
+
+${getFallbackLoaderCode(resolved)}
+
+export async function loadTranslations(locale, namespaces) {
+  if (!__localeLoaders[locale] && import.meta.env.DEV) {
+    console.warn('[ez-i18n] No translations configured for locale:', locale);
+  }
+  return __loadRequested(locale, namespaces);
+}
+
+// Translations are only bundled at build time
+export const translationBundles = {};
+
+${getCompiledLoaderCode([])}
+
+${getHmrClientCode()}
 `;
 }
 
@@ -639,54 +920,33 @@ export async function loadTranslations(locale) {
 function generateBuildTranslationsModule(
   translationInfo: Map<string, TranslationInfo>,
   projectRoot: string,
-  pathBasedNamespacing: boolean
+  resolved: ResolvedEzI18nConfig,
+  bundles: Record<string, string>,
+  precompile: boolean
 ): string {
+  const { pathBasedNamespacing } = resolved;
   const loaderEntries: string[] = [];
-  let needsDeepMerge = false;
   let needsNamespaceWrapper = false;
   let needsPublicLoader = false;
+  let needsFileParser = false;
+  let needsPseudoLocalize = false;
 
   for (const [locale, info] of translationInfo) {
-    if (info.files.length === 0) {
+    if (info.pseudo) {
+      needsPseudoLocalize = true;
+      loaderEntries.push(getPseudoLoaderEntry(locale, info.pseudo));
+    } else if (info.files.length === 0) {
       loaderEntries.push(`  ${JSON.stringify(locale)}: async () => ({})`);
     } else if (info.isPublic) {
       // Public directory files - use fetch in browser, fs in SSR
       needsPublicLoader = true;
-      needsDeepMerge = info.files.length > 1;
-      if (pathBasedNamespacing && info.localeBaseDir) {
-        needsNamespaceWrapper = true;
-        const fileEntries = info.files.map(f => {
-          const url = toPublicUrl(f, projectRoot);
-          const absolutePath = f.replace(/\\/g, '/');
-          const namespace = getNamespaceFromPath(f, info.localeBaseDir!);
-          return `{ url: ${JSON.stringify(url)}, path: ${JSON.stringify(absolutePath)}, namespace: ${JSON.stringify(namespace)} }`;
-        });
-
-        loaderEntries.push(`  ${JSON.stringify(locale)}: async () => {
-    const fileInfos = [${fileEntries.join(', ')}];
-    const responses = await Promise.all(fileInfos.map(f => __loadPublicJson(f.url, f.path)));
-    const wrapped = responses.map((content, i) => __wrapWithNamespace(fileInfos[i].namespace, content));
-    return __deepMerge({}, ...wrapped);
-  }`);
-      } else {
-        const fileEntries = info.files.map(f => {
-          const url = toPublicUrl(f, projectRoot);
-          const absolutePath = f.replace(/\\/g, '/');
-          return `{ url: ${JSON.stringify(url)}, path: ${JSON.stringify(absolutePath)} }`;
-        });
-        if (fileEntries.length === 1) {
-          const f = info.files[0];
-          const url = toPublicUrl(f, projectRoot);
-          const absolutePath = f.replace(/\\/g, '/');
-          loaderEntries.push(`  ${JSON.stringify(locale)}: () => __loadPublicJson(${JSON.stringify(url)}, ${JSON.stringify(absolutePath)})`);
-        } else {
-          loaderEntries.push(`  ${JSON.stringify(locale)}: async () => {
-    const files = [${fileEntries.join(', ')}];
-    const responses = await Promise.all(files.map(f => __loadPublicJson(f.url, f.path)));
-    return __deepMerge({}, ...responses);
-  }`);
-        }
-      }
+      needsFileParser ||= info.files.some((f) => !f.endsWith('.json'));
+      needsNamespaceWrapper ||= Boolean(pathBasedNamespacing && info.localeBaseDir);
+      const loader = getPublicFilesLoader(info, projectRoot, pathBasedNamespacing);
+      const bundleUrl = bundles[locale];
+      loaderEntries.push(bundleUrl
+        ? `  ${JSON.stringify(locale)}: () => __loadPublicBundle(${JSON.stringify(bundleUrl)}, ${loader})`
+        : `  ${JSON.stringify(locale)}: ${loader}`);
     } else if (info.files.length === 1) {
       // Single file - use import
       const relativePath = toRelativeImport(info.files[0], projectRoot);
@@ -703,8 +963,6 @@ function generateBuildTranslationsModule(
       }
     } else {
       // Multiple files - import and merge
-      needsDeepMerge = true;
-
       if (pathBasedNamespacing && info.localeBaseDir) {
         needsNamespaceWrapper = true;
         const fileEntries = info.files.map(f => {
@@ -733,21 +991,31 @@ function generateBuildTranslationsModule(
     }
   }
 
+  // Per-namespace loaders wrap each file with its namespace
+  if (pathBasedNamespacing) {
+    needsNamespaceWrapper = true;
+  }
+
+  // deepMerge is always needed to merge fallback chains
   const helperCode = [
-    needsDeepMerge ? getDeepMergeCode() : '',
+    getDeepMergeCode(),
     needsNamespaceWrapper ? generateNamespaceWrapperCode() : '',
-    needsPublicLoader ? getPublicLoaderCode() : '',
+    needsPublicLoader ? getPublicLoaderCode(needsFileParser) : '',
+    Object.keys(bundles).length > 0 ? getPublicBundleLoaderCode() : '',
+    needsPseudoLocalize ? PSEUDO_IMPORT : '',
   ].filter(Boolean).join('\n');
 
   return `
 ${helperCode}
 
-export const translationLoaders = {
+const __localeLoaders = {
 ${loaderEntries.join(',\n')}
 };
 
-export async function loadTranslations(locale) {
-  const loader = translationLoaders[locale];
+${getNamespaceLoaderCode(translationInfo, projectRoot, pathBasedNamespacing, bundles)}
+
+async function __loadLocale(locale, namespaces) {
+  const loader = __getLocaleLoader(locale, namespaces);
   if (!loader) {
     return {};
   }
@@ -759,9 +1027,252 @@ export async function loadTranslations(locale) {
     return {};
   }
 }
+
+${getFallbackLoaderCode(resolved)}
+
+export async function loadTranslations(locale, namespaces) {
+  return __loadRequested(locale, namespaces);
+}
+
+export const translationBundles = ${JSON.stringify(bundles)};
+
+${getCompiledLoaderCode(precompile ? [...translationInfo.keys()] : [])}
 `;
 }
 
+/**
+ * loadCompiledMessages() export, importing ez-i18n:compiled/<locale> for each
+ * precompiled locale (resolves to null for the rest)
+ */
+function getCompiledLoaderCode(locales: string[]): string {
+  const entries = locales.map(
+    (locale) => `  ${JSON.stringify(locale)}: () => import(${JSON.stringify(VIRTUAL_COMPILED_PREFIX + locale)})`
+  );
+
+  return `const __compiledLoaders = {
+${entries.join(',\n')}
+};
+
+export async function loadCompiledMessages(locale) {
+  const loader = __compiledLoaders[locale];
+  return loader ? (await loader()).default : null;
+}`;
+}
+
+const PSEUDO_IMPORT =
+  "import { pseudoLocalizeTranslations as __pseudoLocalizeTranslations } from '@zachhandley/ez-i18n/runtime';";
+
+/**
+ * Loader entry for a pseudo-locale, generated from the defaultLocale translations.
+ * Expects __loadLocale, __defaultLocale and __pseudoLocalizeTranslations to be defined.
+ */
+function getPseudoLoaderEntry(locale: string, options: PseudoLocalizeOptions): string {
+  return `  ${JSON.stringify(locale)}: () => __loadLocale(__defaultLocale).then((t) => __pseudoLocalizeTranslations(t, ${JSON.stringify(options)}))`;
+}
+
+/**
+ * Loader expression reading a locale's public files one by one
+ * (fetch in the browser, ASSETS on Workers, fs in Node/Deno SSR).
+ * Expects __loadPublicFile, __deepMerge (and __wrapWithNamespace when namespacing) to be defined.
+ */
+function getPublicFilesLoader(info: TranslationInfo, projectRoot: string, pathBasedNamespacing: boolean): string {
+  if (pathBasedNamespacing && info.localeBaseDir) {
+    const fileEntries = info.files.map(f => {
+      const url = toPublicUrl(f, projectRoot);
+      const absolutePath = f.replace(/\\/g, '/');
+      const namespace = getNamespaceFromPath(f, info.localeBaseDir!);
+      return `{ url: ${JSON.stringify(url)}, path: ${JSON.stringify(absolutePath)}, namespace: ${JSON.stringify(namespace)} }`;
+    });
+
+    return `async () => {
+    const fileInfos = [${fileEntries.join(', ')}];
+    const responses = await Promise.all(fileInfos.map(f => __loadPublicFile(f.url, f.path)));
+    const wrapped = responses.map((content, i) => __wrapWithNamespace(fileInfos[i].namespace, content));
+    return __deepMerge({}, ...wrapped);
+  }`;
+  }
+
+  if (info.files.length === 1) {
+    const f = info.files[0];
+    const url = toPublicUrl(f, projectRoot);
+    const absolutePath = f.replace(/\\/g, '/');
+    return `() => __loadPublicFile(${JSON.stringify(url)}, ${JSON.stringify(absolutePath)})`;
+  }
+
+  const fileEntries = info.files.map(f => {
+    const url = toPublicUrl(f, projectRoot);
+    const absolutePath = f.replace(/\\/g, '/');
+    return `{ url: ${JSON.stringify(url)}, path: ${JSON.stringify(absolutePath)} }`;
+  });
+  return `async () => {
+    const files = [${fileEntries.join(', ')}];
+    const responses = await Promise.all(files.map(f => __loadPublicFile(f.url, f.path)));
+    return __deepMerge({}, ...responses);
+  }`;
+}
+
+/**
+ * Inline loader for a hashed translation bundle.
+ * The browser and Cloudflare Workers fetch the bundle (one request, cacheable forever);
+ * Node/Deno SSR keep reading the source files from disk.
+ * Expects __loadPublicFile to be defined.
+ */
+function getPublicBundleLoaderCode(): string {
+  return `
+async function __loadPublicBundle(url, loadSourceFiles) {
+  const isBrowser = typeof window !== 'undefined' && typeof document !== 'undefined';
+  if (isBrowser || globalThis.__EZ_I18N_ASSETS__) {
+    return __loadPublicFile(url);
+  }
+  return loadSourceFiles();
+}`;
+}
+
+/**
+ * Inline HMR listener for the dev translations module.
+ * Re-applies the active locale in place when it (or one of its fallbacks) changes,
+ * so every store subscriber re-renders without a page reload.
+ * Expects __hmrTranslations, __getFallbackChain and loadTranslations to be defined.
+ */
+function getHmrClientCode(): string {
+  return `
+import {
+  effectiveLocale as __effectiveLocale,
+  loadedNamespaces as __loadedNamespaces,
+  setTranslations as __setTranslations,
+} from '@zachhandley/ez-i18n/runtime';
+
+if (import.meta.hot) {
+  import.meta.hot.on(${JSON.stringify(HMR_UPDATE_EVENT)}, async ({ locale, translations }) => {
+    __hmrTranslations[locale] = translations;
+
+    const current = __effectiveLocale.get();
+    if (locale !== current && !__getFallbackChain(current).includes(locale)) return;
+
+    __setTranslations(await loadTranslations(current, __loadedNamespaces.get() ?? undefined));
+  });
+}`;
+}
+
+/**
+ * Inline fallback chain loader for the virtual module.
+ * Expects __localeLoaders, __loadLocale, __normalizeNamespaces, __pickNamespaces and __deepMerge to be defined.
+ * Exports translationLoaders so each loader also resolves its fallbacks.
+ */
+function getFallbackLoaderCode(resolved: ResolvedEzI18nConfig): string {
+  return `
+const __fallbackChains = ${JSON.stringify(resolved.fallbackChains)};
+const __defaultLocale = ${JSON.stringify(resolved.defaultLocale)};
+
+function __getFallbackChain(locale) {
+  if (__fallbackChains[locale]) return __fallbackChains[locale];
+  // Unconfigured locale - try its base language, then the default chain
+  const chain = [];
+  const base = locale.split('-')[0];
+  if (base !== locale && __localeLoaders[base]) {
+    chain.push(base, ...(__fallbackChains[base] || []));
+  }
+  if (locale !== __defaultLocale && !chain.includes(__defaultLocale)) {
+    chain.push(__defaultLocale);
+  }
+  return chain;
+}
+
+async function __loadWithFallbacks(locale, namespaces) {
+  const chain = [locale, ...__getFallbackChain(locale)];
+  const loaded = await Promise.all(chain.map((l) => __loadLocale(l, namespaces)));
+  if (loaded.length === 1) return loaded[0];
+  // Merge lowest priority first so the requested locale wins
+  return __deepMerge({}, ...loaded.reverse());
+}
+
+async function __loadRequested(locale, namespaces) {
+  const requested = namespaces ? __normalizeNamespaces(namespaces) : null;
+  const translations = await __loadWithFallbacks(locale, requested);
+  return requested ? __pickNamespaces(translations, requested) : translations;
+}
+
+export const translationLoaders = Object.fromEntries(
+  Object.keys(__localeLoaders).map((locale) => [locale, () => __loadWithFallbacks(locale)])
+);`;
+}
+
+/**
+ * Inline per-namespace loaders for the virtual module.
+ * With path-based namespacing each file is loaded on its own, so requesting
+ * `['auth']` only reads files whose namespace overlaps `auth`. Without it,
+ * the whole locale is loaded and the requested namespaces are picked from it.
+ * Expects __localeLoaders, __deepMerge (and __wrapWithNamespace / __loadPublicFile when used) to be defined.
+ */
+function getNamespaceLoaderCode(
+  translationInfo: Map<string, TranslationInfo>,
+  projectRoot: string,
+  pathBasedNamespacing: boolean,
+  bundles: Record<string, string> = {}
+): string {
+  const entries: string[] = [];
+
+  if (pathBasedNamespacing) {
+    for (const [locale, info] of translationInfo) {
+      // Bundled locales are a single request, so namespaces are picked from the bundle
+      if (!info.localeBaseDir || bundles[locale]) continue;
+      const fileEntries = info.files.map((f) => {
+        const namespace = getNamespaceFromPath(f, info.localeBaseDir!);
+        const load = info.isPublic
+          ? `__loadPublicFile(${JSON.stringify(toPublicUrl(f, projectRoot))}, ${JSON.stringify(f.replace(/\\/g, '/'))})`
+          : `import(${JSON.stringify(toRelativeImport(f, projectRoot))}).then(m => m.default ?? m)`;
+        return `    { namespace: ${JSON.stringify(namespace)}, load: () => ${load}.then(c => __wrapWithNamespace(${JSON.stringify(namespace)}, c)) }`;
+      });
+      entries.push(`  ${JSON.stringify(locale)}: [\n${fileEntries.join(',\n')}\n  ]`);
+    }
+  }
+
+  return `
+const __namespaceLoaders = {
+${entries.join(',\n')}
+};
+
+function __normalizeNamespaces(namespaces) {
+  const list = Array.isArray(namespaces) ? namespaces : [namespaces];
+  return [...new Set(list.map((ns) => ns.trim().replace(/\\.?\\*+$/, '')).filter(Boolean))];
+}
+
+function __matchesNamespace(fileNamespace, namespaces) {
+  if (!fileNamespace) return true;
+  return namespaces.some((ns) =>
+    fileNamespace === ns || fileNamespace.startsWith(ns + '.') || ns.startsWith(fileNamespace + '.')
+  );
+}
+
+function __pickNamespaces(translations, namespaces) {
+  let result = {};
+  for (const ns of namespaces) {
+    const parts = ns.split('.');
+    let value = translations;
+    for (const part of parts) {
+      value = value && typeof value === 'object' ? value[part] : undefined;
+    }
+    if (value === undefined) continue;
+    let wrapped = value;
+    for (let i = parts.length - 1; i >= 0; i--) {
+      wrapped = { [parts[i]]: wrapped };
+    }
+    result = __deepMerge(result, wrapped);
+  }
+  return result;
+}
+
+function __getLocaleLoader(locale, namespaces) {
+  const files = namespaces && __namespaceLoaders[locale];
+  if (!files || !__localeLoaders[locale]) return __localeLoaders[locale];
+  return async () => {
+    const matching = files.filter((file) => __matchesNamespace(file.namespace, namespaces));
+    const contents = await Promise.all(matching.map((file) => file.load()));
+    return __deepMerge({}, ...contents);
+  };
+}`;
+}
+
 /**
  * Inline deepMerge function for the virtual module
  */
@@ -787,18 +1298,23 @@ function __deepMerge(target, ...sources) {
 }
 
 /**
- * Inline public JSON loader for the virtual module.
+ * Inline public translation file loader for the virtual module.
  * Runtime-aware: detects environment and uses appropriate file loading strategy.
+ * JSON is parsed inline; YAML/JSON5/TOML files pull in the ez-i18n parsers.
  */
-function getPublicLoaderCode(): string {
-  return `
-async function __loadPublicJson(url, absolutePath) {
-  async function __parseJsonResponse(response) {
-    const text = await response.text();
-    if (!text) return {};
-    return JSON.parse(text);
-  }
+function getPublicLoaderCode(needsFileParser: boolean): string {
+  const parserImport = needsFileParser
+    ? `import { parseTranslationFile as __parseTranslationFile } from '@zachhandley/ez-i18n/parsers';\n`
+    : '';
+  const parse = needsFileParser ? '__parseTranslationFile(text, file)' : 'JSON.parse(text)';
+
+  return `${parserImport}
+function __parsePublicFile(text, file) {
+  if (!text) return {};
+  return ${parse};
+}
 
+async function __loadPublicFile(url, absolutePath) {
   // Browser - fetch with relative URL
   if (typeof window !== 'undefined' && typeof document !== 'undefined') {
     const response = await fetch(url);
@@ -806,7 +1322,7 @@ async function __loadPublicJson(url, absolutePath) {
       if (response.status === 404) return {};
       throw new Error(\`Failed to fetch translations from \${url}: \${response.status}\`);
     }
-    return __parseJsonResponse(response);
+    return __parsePublicFile(await response.text(), url);
   }
 
   // Cloudflare Workers - use ASSETS binding (set by middleware)
@@ -817,35 +1333,160 @@ async function __loadPublicJson(url, absolutePath) {
       if (response.status === 404) return {};
       throw new Error(\`Failed to fetch translations from \${url}: \${response.status}\`);
     }
-    return __parseJsonResponse(response);
+    return __parsePublicFile(await response.text(), url);
   }
 
   // Deno - use Deno.readTextFile
   if (typeof Deno !== 'undefined') {
-    const content = await Deno.readTextFile(absolutePath);
-    if (!content) return {};
-    return JSON.parse(content);
+    return __parsePublicFile(await Deno.readTextFile(absolutePath), absolutePath);
   }
 
   // Node.js / Bun - use absolute path with node:fs
   const { readFileSync } = await import('node:fs');
-  const content = readFileSync(absolutePath, 'utf-8');
-  if (!content) return {};
-  return JSON.parse(content);
+  return __parsePublicFile(readFileSync(absolutePath, 'utf-8'), absolutePath);
 }`;
 }
 
+/**
+ * Normalize the missingKeyBeacon option (a bare string is the endpoint)
+ */
+function resolveMissingKeyBeacon(
+  beacon: EzI18nConfig['missingKeyBeacon']
+): ResolvedEzI18nConfig['missingKeyBeacon'] {
+  return typeof beacon === 'string' ? { endpoint: beacon } : beacon;
+}
+
+const DEFAULT_RESOLVERS: BuiltinLocaleResolver[] = ['query', 'cookie', 'acceptLanguage'];
+const DOMAIN_RESOLVERS: BuiltinLocaleResolver[] = ['query', 'domain', 'cookie', 'acceptLanguage'];
+const BUILTIN_RESOLVERS: BuiltinLocaleResolver[] = DOMAIN_RESOLVERS;
+
+/**
+ * Validate the resolvers option (unknown built-in names are dropped with a warning,
+ * a module path is kept as is). By default a mapped domain wins over the cookie,
+ * but not over an explicit ?lang= switch.
+ */
+function resolveResolvers(
+  resolvers: EzI18nConfig['resolvers'],
+  domains: EzI18nConfig['domains']
+): ResolvedEzI18nConfig['resolvers'] {
+  if (!resolvers) {
+    return domains && Object.keys(domains).length > 0 ? DOMAIN_RESOLVERS : DEFAULT_RESOLVERS;
+  }
+  if (typeof resolvers === 'string') return resolvers;
+  return resolvers.filter((resolver) => {
+    if (BUILTIN_RESOLVERS.includes(resolver)) return true;
+    console.warn(
+      `[ez-i18n] Unknown locale resolver "${resolver}" (expected ${BUILTIN_RESOLVERS.join(', ')}, ` +
+        'or a module path for custom resolvers)'
+    );
+    return false;
+  });
+}
+
+/**
+ * Re-export the default export of a module configured by path (relative to
+ * the project root), or export null when it isn't set
+ */
+function getDefaultReexport(modulePath: string | undefined, root: string): string {
+  if (!modulePath) return 'export default null;';
+  const file = path.resolve(root, modulePath).split(path.sep).join('/');
+  return `export { default } from ${JSON.stringify(file)};`;
+}
+
+/**
+ * Normalize the domains option (lowercase hostnames without a trailing dot)
+ */
+function resolveDomains(domains: EzI18nConfig['domains']): ResolvedEzI18nConfig['domains'] {
+  const result: Record<string, string> = {};
+  for (const [host, locale] of Object.entries(domains ?? {})) {
+    result[host.trim().toLowerCase().replace(/\.$/, '')] = locale;
+  }
+  return result;
+}
+
+/**
+ * Normalize the prefixRoutes option (a bare array is the route list)
+ */
+function resolvePrefixRoutes(option: EzI18nConfig['prefixRoutes']): ResolvedEzI18nConfig['prefixRoutes'] {
+  if (!option) return undefined;
+  const { routes, prefixDefaultLocale = false } = Array.isArray(option) ? { routes: option } : option;
+  return routes.length > 0 ? { routes, prefixDefaultLocale } : undefined;
+}
+
+/** Error pages never listed in the localized sitemap */
+const SITEMAP_ERROR_PAGES = ['/404', '/500'];
+
+/**
+ * Normalize the sitemap option (error pages are always excluded)
+ */
+function resolveSitemap(option: EzI18nConfig['sitemap']): ResolvedEzI18nConfig['sitemap'] {
+  if (!option) return undefined;
+  const { exclude = [] } = option === true ? {} : option;
+  return { exclude: [...SITEMAP_ERROR_PAGES, ...exclude] };
+}
+
+/**
+ * Normalize the staticVariants option (true is the 'suffix' layout)
+ */
+function resolveStaticVariants(
+  option: EzI18nConfig['staticVariants']
+): ResolvedEzI18nConfig['staticVariants'] {
+  if (!option) return undefined;
+  return option === true ? 'suffix' : option;
+}
+
+/**
+ * Resolve the pseudoLocale option to pseudo-locale → transform options
+ */
+function resolvePseudoLocales(
+  option: EzI18nConfig['pseudoLocale']
+): ResolvedEzI18nConfig['pseudoLocales'] {
+  if (!option) return {};
+  if (typeof option === 'string') {
+    // Right-to-left when the base language is (e.g. 'ar-XB')
+    return { [option]: { rtl: getLocaleInfo(option.split('-')[0]).dir === 'rtl' } };
+  }
+
+  const { locale = 'en-XA', rtlLocale = 'ar-XB', expansion } = option === true ? {} : option;
+  const pseudoLocales: ResolvedEzI18nConfig['pseudoLocales'] = {};
+  if (locale) pseudoLocales[locale] = { expansion, rtl: false };
+  if (rtlLocale) pseudoLocales[rtlLocale] = { expansion, rtl: true };
+  return pseudoLocales;
+}
+
+/**
+ * Append pseudo-locales to the locale list
+ */
+function withPseudoLocales(locales: string[], pseudoLocales: ResolvedEzI18nConfig['pseudoLocales']): string[] {
+  const extra = Object.keys(pseudoLocales).filter((locale) => !locales.includes(locale));
+  return extra.length > 0 ? [...locales, ...extra] : locales;
+}
+
 // Re-export resolveConfig for backwards compatibility
 export function resolveConfig(config: EzI18nConfig): ResolvedEzI18nConfig {
   // This is now a simplified version - full resolution happens in buildStart
   const isAutoDiscovery = !config.translations || typeof config.translations === 'string';
+  const pseudoLocales = resolvePseudoLocales(config.pseudoLocale);
+  const locales = config.locales ? withPseudoLocales(config.locales, pseudoLocales) : [];
   return {
-    locales: config.locales || [],
+    locales,
     defaultLocale: config.defaultLocale,
     cookieName: config.cookieName ?? 'ez-locale',
     translations: {},
     pathBasedNamespacing: config.pathBasedNamespacing ?? isAutoDiscovery,
     localeBaseDirs: {},
     cookieDomain: config.cookieDomain,
+    namespaces: config.namespaces,
+    formats: config.formats ?? {},
+    onMissingKey: config.onMissingKey ?? 'key',
+    missingKeyBeacon: resolveMissingKeyBeacon(config.missingKeyBeacon),
+    pseudoLocales,
+    staticVariants: resolveStaticVariants(config.staticVariants),
+    precompile: config.precompile ?? false,
+    resolvers: resolveResolvers(config.resolvers, config.domains),
+    domains: resolveDomains(config.domains),
+    prefixRoutes: resolvePrefixRoutes(config.prefixRoutes),
+    sitemap: resolveSitemap(config.sitemap),
+    fallbackChains: buildFallbackChains(locales, config.defaultLocale, config.fallbackLocale),
   };
 }
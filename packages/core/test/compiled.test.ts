@@ -0,0 +1,48 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { compiledHelpers, formatCompiled } from '../src/runtime/compiled';
+import { runWithI18nContext, setContextStorage } from '../src/runtime/context';
+import { t } from '../src/runtime/store';
+import { compileMessage } from '../src/utils/compile';
+import type { CompiledMessage, CompiledMessages } from '../src/types';
+
+const PROTOTYPE_KEYS = ['constructor', 'toString', 'valueOf', 'hasOwnProperty'];
+
+/** Evaluate a compiled message the way the generated module does */
+function evaluate(message: string): CompiledMessage {
+  const { arg, num, plural, select } = compiledHelpers;
+  return new Function('__arg', '__num', '__plural', '__select', `return ${message};`)(arg, num, plural, select);
+}
+
+describe('formatCompiled', () => {
+  afterEach(() => {
+    setContextStorage(null);
+    globalThis.__EZ_I18N__ = undefined;
+  });
+
+  it('formats own keys', () => {
+    const messages: CompiledMessages = { greeting: evaluate(compileMessage('Hi {name}')) };
+    expect(formatCompiled(messages, undefined, 'greeting', { name: 'Ada' }, 'en')).toBe('Hi Ada');
+  });
+
+  it('ignores keys inherited from Object.prototype', () => {
+    const messages: CompiledMessages = { greeting: 'Hi' };
+    for (const key of PROTOTYPE_KEYS) {
+      expect(formatCompiled(messages, undefined, key, { name: 'Ada' }, 'en')).toBeUndefined();
+    }
+  });
+
+  it('sends prototype-named keys to missing key handling in t()', () => {
+    const messages: CompiledMessages = { greeting: 'Hi' };
+    runWithI18nContext({ locale: 'en', translations: { greeting: 'Hi' }, messages }, () => {
+      for (const key of PROTOTYPE_KEYS) {
+        expect(t(key as never)).toBe(key);
+      }
+    });
+  });
+
+  it('uses the other branch for prototype-named select values', () => {
+    const message = evaluate(compileMessage('{kind, select, admin {Admin} other {User}}'));
+    const messages: CompiledMessages = { role: message };
+    expect(formatCompiled(messages, undefined, 'role', { kind: 'constructor' }, 'en')).toBe('User');
+  });
+});
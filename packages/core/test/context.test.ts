@@ -0,0 +1,54 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { getI18nContext, resolveRenderContext, runWithI18nContext, setContextStorage } from '../src/runtime/context';
+import { t } from '../src/runtime/store';
+import type { EzI18nContext } from '../src/types';
+
+const tick = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/** Render a "page" for a request, checking the context after every await */
+async function render(context: EzI18nContext, delays: number[]): Promise<string[]> {
+  return runWithI18nContext(context, async () => {
+    const seen: string[] = [];
+    for (const ms of delays) {
+      await tick(ms);
+      expect(getI18nContext()).toBe(context);
+      expect(resolveRenderContext({}, 'en')).toMatchObject({
+        locale: context.locale,
+        translations: context.translations,
+      });
+      seen.push(t('greeting' as never, { name: context.locale } as never));
+    }
+    return seen;
+  });
+}
+
+describe('runWithI18nContext', () => {
+  beforeEach(() => setContextStorage(new AsyncLocalStorage<EzI18nContext>()));
+  afterEach(() => {
+    setContextStorage(null);
+    globalThis.__EZ_I18N__ = undefined;
+  });
+
+  it('keeps concurrent requests isolated across awaits', async () => {
+    const en: EzI18nContext = { locale: 'en', translations: { greeting: 'Hello {name}' } };
+    const es: EzI18nContext = { locale: 'es', translations: { greeting: 'Hola {name}' } };
+
+    // Interleave the two renders so each resumes while the other is mid-flight
+    const [enSeen, esSeen] = await Promise.all([render(en, [10, 1, 10]), render(es, [1, 10, 1])]);
+
+    expect(enSeen).toEqual(['Hello en', 'Hello en', 'Hello en']);
+    expect(esSeen).toEqual(['Hola es', 'Hola es', 'Hola es']);
+    expect(getI18nContext()).toBeUndefined();
+  });
+
+  it('falls back to the shared global without a storage', () => {
+    setContextStorage(null);
+    const context: EzI18nContext = { locale: 'fr', translations: { greeting: 'Bonjour' } };
+
+    runWithI18nContext(context, () => {
+      expect(getI18nContext()).toBe(context);
+      expect(t('greeting' as never)).toBe('Bonjour');
+    });
+  });
+});
@@ -0,0 +1,43 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { runWithI18nContext, setContextStorage } from '../src/runtime/context';
+import { handleMissingKey, setMissingKeyHandler, setMissingKeyStrategy } from '../src/runtime/missing';
+import { t } from '../src/runtime/store';
+
+describe("the 'fallback' strategy", () => {
+  afterEach(() => {
+    setContextStorage(null);
+    globalThis.__EZ_I18N__ = undefined;
+    globalThis.__EZ_I18N_MISSING__ = undefined;
+  });
+
+  it('reports the key, then returns the defaultLocale value', () => {
+    const handler = vi.fn();
+    setMissingKeyStrategy('fallback');
+    setMissingKeyHandler(handler);
+
+    const context = {
+      locale: 'es',
+      translations: { greeting: 'Hola {name}' },
+      fallbackTranslations: { greeting: 'Hello {name}', farewell: 'Bye {name}' },
+    };
+    runWithI18nContext(context, () => {
+      expect(t('greeting' as never, { name: 'Ada' } as never)).toBe('Hola Ada');
+      expect(t('farewell' as never, { name: 'Ada' } as never)).toBe('Bye Ada');
+      expect(t('nope' as never)).toBe('nope');
+    });
+
+    expect(handler.mock.calls.map(([key, locale]) => [key, locale])).toEqual([
+      ['farewell', 'es'],
+      ['nope', 'es'],
+    ]);
+  });
+
+  it('lets the handler supply the value', () => {
+    setMissingKeyStrategy('fallback');
+    setMissingKeyHandler((key) => `<${key}>`);
+
+    runWithI18nContext({ locale: 'es', translations: {}, fallbackTranslations: { farewell: 'Bye' } }, () => {
+      expect(handleMissingKey('farewell', 'es', { source: 't' })).toBe('<farewell>');
+    });
+  });
+});
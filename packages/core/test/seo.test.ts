@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { getLocaleAlternates, getLocaleUrl } from '../src/runtime/seo';
+import { generateLocalizedSitemap } from '../src/utils/sitemap';
+
+const options = {
+  locales: ['en', 'es', 'pt'],
+  defaultLocale: 'en',
+  localeToBCP47: { en: 'en-US', es: 'es', pt: 'pt-BR' },
+};
+
+describe('getLocaleAlternates', () => {
+  it('links every locale to its ?lang= URL with cookie routing', () => {
+    const url = new URL('https://example.com/about?lang=es&ref=nav');
+
+    expect(getLocaleAlternates(url, options)).toEqual([
+      { locale: 'en', hreflang: 'en-US', href: 'https://example.com/about?ref=nav&lang=en' },
+      { locale: 'es', hreflang: 'es', href: 'https://example.com/about?ref=nav&lang=es' },
+      { locale: 'pt', hreflang: 'pt-BR', href: 'https://example.com/about?ref=nav&lang=pt' },
+      { locale: 'x-default', hreflang: 'x-default', href: 'https://example.com/about?ref=nav' },
+    ]);
+  });
+
+  it('uses /{locale}/ URLs on prefixed routes', () => {
+    const routing = { routes: ['/about'], prefixDefaultLocale: false, locales: options.locales, defaultLocale: 'en' };
+    const alternates = getLocaleAlternates(new URL('https://example.com/es/about'), { ...options, routing });
+
+    expect(alternates.map(({ href }) => href)).toEqual([
+      'https://example.com/about',
+      'https://example.com/es/about',
+      'https://example.com/pt/about',
+      'https://example.com/about',
+    ]);
+  });
+});
+
+describe('getLocaleUrl', () => {
+  it('returns the ?lang= URL for a locale and the bare URL for null', () => {
+    const url = new URL('https://example.com/about?lang=pt');
+    expect(getLocaleUrl(url, 'es')).toBe('https://example.com/about?lang=es');
+    expect(getLocaleUrl(url, null)).toBe('https://example.com/about');
+  });
+});
+
+describe('generateLocalizedSitemap', () => {
+  it('leaves ?lang= URLs out for cookie routing', () => {
+    const xml = generateLocalizedSitemap(['https://example.com/about'], options);
+    expect(xml).toContain('<url><loc>https://example.com/about</loc></url>');
+    expect(xml).not.toContain('lang=');
+  });
+});
@@ -7,6 +7,7 @@ export default defineConfig([
       'src/index.ts',
       'src/runtime/index.ts',
       'src/utils/index.ts',
+      'src/parsers.ts',
     ],
     format: ['esm'],
     dts: true,
@@ -19,6 +20,17 @@ export default defineConfig([
       /^@zachhandley\/ez-i18n/,
     ],
   },
+  // CLI (no dts - executable only)
+  {
+    entry: ['src/cli.ts'],
+    format: ['esm'],
+    dts: false,
+    splitting: false,
+    external: [
+      'astro',
+      'nanostores',
+    ],
+  },
   // Middleware (no dts - uses Astro virtual modules)
   {
     entry: ['src/middleware.ts'],
@@ -29,6 +41,8 @@ export default defineConfig([
       'astro',
       'astro:middleware',
       'ez-i18n:config',
+      'ez-i18n:missing-handler',
+      'ez-i18n:resolvers',
     ],
   },
 ]);
@@ -0,0 +1,8 @@
+import { initLocale, setTranslations, getI18nContext } from '@zachhandley/ez-i18n/runtime';
+
+// Initialize stores from global data if available (handles separate Vite bundles)
+const initData = getI18nContext();
+if (initData) {
+  initLocale(initData.locale, initData.translations, initData.namespaces);
+  setTranslations(initData.translations);
+}
@@ -0,0 +1,82 @@
+import { useStore } from '@nanostores/preact';
+// Import from package path (not relative) to ensure shared store instance
+import {
+  effectiveLocale,
+  translations,
+  localeLoading,
+  setLocale,
+  loadNamespace,
+  tc as tcCore,
+  resolveRenderContext,
+  translateWith,
+  n,
+  d,
+  rt,
+  list,
+  displayName,
+} from '@zachhandley/ez-i18n/runtime';
+import type { TranslateFunction, TranslationKey, TranslateArgs } from '@zachhandley/ez-i18n';
+import './bootstrap';
+
+/**
+ * Preact hook for i18n
+ *
+ * Note: t() is reactive because useI18n() subscribes to the translations and
+ * locale stores via useStore(), so the component re-renders when they change.
+ * For signal-based components, see `@zachhandley/ez-i18n-preact/signals`.
+ *
+ * @example
+ * import { useI18n } from '@zachhandley/ez-i18n-preact';
+ *
+ * function MyComponent() {
+ *   const { t, n, locale, setLocale } = useI18n();
+ *
+ *   return (
+ *     <div>
+ *       <h1>{t('common.welcome')}</h1>
+ *       <p>{t('greeting', { name: 'World' })}</p>
+ *       <p>{n(1234.5, 'currency')}</p>
+ *       <button onClick={() => setLocale('es')}>Español</button>
+ *     </div>
+ *   );
+ * }
+ */
+export function useI18n() {
+  const locale = useStore(effectiveLocale);
+  const trans = useStore(translations);
+  const loading = useStore(localeLoading);
+
+  const t: TranslateFunction = (
+    key: string,
+    params?: Record<string, string | number>
+  ): string => translateWith(resolveRenderContext(trans, locale), key, params, 'preact');
+
+  return {
+    t,
+    n,
+    d,
+    rt,
+    list,
+    displayName,
+    locale: resolveRenderContext(trans, locale).locale,
+    localeLoading: loading,
+    setLocale,
+    loadNamespace,
+  };
+}
+
+/**
+ * Hook to get a single reactive translation.
+ *
+ * @example
+ * const title = useTranslation('welcome.title');
+ */
+export function useTranslation<K extends TranslationKey>(
+  key: K,
+  ...args: TranslateArgs<K>
+): string {
+  return useStore(tcCore(key, ...args));
+}
+
+// Re-export core tc for advanced usage with useStore
+export { tc as tcAtom } from '@zachhandley/ez-i18n/runtime';
@@ -0,0 +1,70 @@
+/**
+ * @preact/signals bindings for ez-i18n
+ *
+ * The signals mirror the shared nanostores atoms, so components that read
+ * them (or call t()) during render re-render without any hooks.
+ */
+import { signal, computed, type ReadonlySignal } from '@preact/signals';
+import type { ReadableAtom } from 'nanostores';
+// Import from package path (not relative) to ensure shared store instance
+import {
+  effectiveLocale,
+  translations as translationsAtom,
+  localeLoading as localeLoadingAtom,
+  resolveRenderContext,
+  translateWith,
+} from '@zachhandley/ez-i18n/runtime';
+import type { TranslateFunction, TranslationKey, TranslateArgs } from '@zachhandley/ez-i18n';
+import './bootstrap';
+
+/**
+ * Mirror a nanostores atom into a read-only signal
+ * (the listener is never removed, so only call this for the module-level signals)
+ */
+function toSignal<T>(store: ReadableAtom<T>): ReadonlySignal<T> {
+  const sig = signal(store.get());
+  store.listen((value) => {
+    sig.value = value;
+  });
+  return computed(() => sig.value);
+}
+
+/** Current locale */
+export const locale = toSignal(effectiveLocale);
+
+/** Current translations object */
+export const translations = toSignal(translationsAtom);
+
+/** Whether a locale change is in progress */
+export const localeLoading = toSignal(localeLoadingAtom);
+
+/**
+ * Translation function that reads the locale and translation signals,
+ * so calling it during render subscribes the component
+ *
+ * @example
+ * import { t } from '@zachhandley/ez-i18n-preact/signals';
+ *
+ * const Title = () => <h1>{t('common.welcome')}</h1>;
+ */
+export const t: TranslateFunction = (
+  key: string,
+  params?: Record<string, string | number>
+): string => translateWith(resolveRenderContext(translations.value, locale.value), key, params, 'preact');
+
+/**
+ * Signal for a single translation (can be passed straight into JSX).
+ * Derived from the shared locale and translation signals, so it adds no
+ * store listener and can be created anywhere.
+ *
+ * @example
+ * const title = translation('welcome.title');
+ * const Title = () => <h1>{title}</h1>;
+ */
+export function translation<K extends TranslationKey>(
+  key: K,
+  ...args: TranslateArgs<K>
+): ReadonlySignal<string> {
+  const [params] = args;
+  return computed(() => translateWith(resolveRenderContext(translations.value, locale.value), key, params, 'preact'));
+}
@@ -0,0 +1,18 @@
+import { defineConfig } from 'tsup';
+
+export default defineConfig({
+  entry: ['src/index.ts', 'src/signals.ts'],
+  format: ['esm'],
+  dts: true,
+  clean: true,
+  splitting: false,
+  external: [
+    'preact',
+    /^preact\//,
+    'nanostores',
+    '@nanostores/preact',
+    '@preact/signals',
+    '@zachhandley/ez-i18n',
+    /^@zachhandley\/ez-i18n\//,
+  ],
+});
@@ -3,19 +3,28 @@ import { useStore } from '@nanostores/react';
 import {
   effectiveLocale,
   translations,
+  localeLoading,
   setLocale,
   initLocale,
   setTranslations,
-  getNestedValue,
-  interpolate,
+  loadNamespace,
+  getI18nContext,
+  resolveRenderContext,
+  translateWith,
   tc as tcCore,
+  n,
+  d,
+  rt,
+  list,
+  displayName,
 } from '@zachhandley/ez-i18n/runtime';
-import type { TranslateFunction } from '@zachhandley/ez-i18n';
+import type { TranslateFunction, TranslationKey, TranslateArgs } from '@zachhandley/ez-i18n';
 
 // Initialize stores from global data if available (handles separate Vite bundles)
-if (globalThis.__EZ_I18N__) {
-  initLocale(globalThis.__EZ_I18N__.locale, globalThis.__EZ_I18N__.translations);
-  setTranslations(globalThis.__EZ_I18N__.translations);
+const initData = getI18nContext();
+if (initData) {
+  initLocale(initData.locale, initData.translations, initData.namespaces);
+  setTranslations(initData.translations);
 }
 
 /**
@@ -23,18 +32,20 @@ if (globalThis.__EZ_I18N__) {
  *
  * Note: In React, t() is already reactive because useI18n() subscribes to
  * the translations store via useStore(). When translations change, the
- * component re-renders and t() returns updated values.
+ * component re-renders and t() returns updated values. The same applies to
+ * the n()/d()/rt()/list()/displayName() formatting helpers and the locale.
  *
  * @example
  * import { useI18n } from '@zachhandley/ez-i18n/react';
  *
  * function MyComponent() {
- *   const { t, locale, setLocale } = useI18n();
+ *   const { t, n, locale, setLocale } = useI18n();
  *
  *   return (
  *     <div>
  *       <h1>{t('common.welcome')}</h1>
  *       <p>{t('greeting', { name: 'World' })}</p>
+ *       <p>{n(1234.5, 'currency')}</p>
  *       <button onClick={() => setLocale('es')}>Español</button>
  *     </div>
  *   );
@@ -43,36 +54,25 @@ if (globalThis.__EZ_I18N__) {
 export function useI18n() {
   const locale = useStore(effectiveLocale);
   const trans = useStore(translations);
+  const loading = useStore(localeLoading);
 
+  // Request context on the server, global context while the store is empty in the browser
   const t: TranslateFunction = (
     key: string,
     params?: Record<string, string | number>
-  ): string => {
-    // Fallback: if store is empty, check global context set by middleware/EzI18nHead
-    let effectiveTrans = trans;
-    if (Object.keys(trans).length === 0) {
-      const ssrTrans = globalThis.__EZ_I18N__?.translations;
-      if (ssrTrans) {
-        effectiveTrans = ssrTrans;
-      }
-    }
-
-    const value = getNestedValue(effectiveTrans, key);
-
-    if (typeof value !== 'string') {
-      if (import.meta.env?.DEV) {
-        console.warn('[ez-i18n] Missing translation:', key);
-      }
-      return key;
-    }
-
-    return interpolate(value, params);
-  };
+  ): string => translateWith(resolveRenderContext(trans, locale), key, params, 'react');
 
   return {
     t,
-    locale,
+    n,
+    d,
+    rt,
+    list,
+    displayName,
+    locale: resolveRenderContext(trans, locale).locale,
+    localeLoading: loading,
     setLocale,
+    loadNamespace,
   };
 }
 
@@ -83,11 +83,11 @@ export function useI18n() {
  * @example
  * const title = useTranslation('welcome.title');
  */
-export function useTranslation(
-  key: string,
-  params?: Record<string, string | number>
+export function useTranslation<K extends TranslationKey>(
+  key: K,
+  ...args: TranslateArgs<K>
 ): string {
-  return useStore(tcCore(key, params));
+  return useStore(tcCore(key, ...args));
 }
 
 // Re-export core tc for advanced usage with useStore
@@ -0,0 +1,109 @@
+import { useStore } from '@nanostores/solid';
+import type { Accessor } from 'solid-js';
+// Import from package path (not relative) to ensure shared store instance
+import {
+  effectiveLocale,
+  translations,
+  localeLoading,
+  setLocale,
+  initLocale,
+  setTranslations,
+  loadNamespace,
+  getI18nContext,
+  resolveRenderContext,
+  translateWith,
+  tc as tcCore,
+  n as nCore,
+  d as dCore,
+  rt as rtCore,
+  list as listCore,
+  displayName as displayNameCore,
+} from '@zachhandley/ez-i18n/runtime';
+import type { TranslateFunction, TranslationKey, TranslateArgs } from '@zachhandley/ez-i18n';
+
+// Initialize stores from global data if available (handles separate Vite bundles)
+const initData = getI18nContext();
+if (initData) {
+  initLocale(initData.locale, initData.translations, initData.namespaces);
+  setTranslations(initData.translations);
+}
+
+/**
+ * Wrap a formatting helper so it tracks the locale signal
+ */
+function trackLocale<F extends (...args: never[]) => string>(
+  locale: Accessor<string>,
+  format: F
+): F {
+  return ((...args: Parameters<F>) => {
+    locale();
+    return format(...args);
+  }) as F;
+}
+
+/**
+ * Solid primitive for i18n
+ *
+ * Note: `locale` and `localeLoading` are signals, and `t()` and the
+ * n()/d()/rt()/list()/displayName() formatting helpers read the locale and
+ * translation signals, so any JSX expression or effect that calls them
+ * updates when the locale changes.
+ *
+ * @example
+ * import { useI18n } from '@zachhandley/ez-i18n-solid';
+ *
+ * function MyComponent() {
+ *   const { t, n, locale, setLocale } = useI18n();
+ *
+ *   return (
+ *     <div>
+ *       <h1>{t('common.welcome')}</h1>
+ *       <p>{t('greeting', { name: 'World' })}</p>
+ *       <p>{n(1234.5, 'currency')}</p>
+ *       <button onClick={() => setLocale('es')}>Español ({locale()})</button>
+ *     </div>
+ *   );
+ * }
+ */
+export function useI18n() {
+  const storeLocale = useStore(effectiveLocale);
+  const trans = useStore(translations);
+  const loading = useStore(localeLoading);
+  const locale = () => resolveRenderContext(trans(), storeLocale()).locale;
+
+  // Request context on the server, global context while the store is empty in the browser
+  const t: TranslateFunction = (
+    key: string,
+    params?: Record<string, string | number>
+  ): string => translateWith(resolveRenderContext(trans(), storeLocale()), key, params, 'solid');
+
+  return {
+    t,
+    n: trackLocale(locale, nCore),
+    d: trackLocale(locale, dCore),
+    rt: trackLocale(locale, rtCore),
+    list: trackLocale(locale, listCore),
+    displayName: trackLocale(locale, displayNameCore),
+    locale,
+    localeLoading: loading,
+    setLocale,
+    loadNamespace,
+  };
+}
+
+/**
+ * Create a signal for a single reactive translation.
+ *
+ * @example
+ * const title = createTranslation('welcome.title');
+ * return <h1>{title()}</h1>;
+ */
+export function createTranslation<K extends TranslationKey>(
+  key: K,
+  ...args: TranslateArgs<K>
+): Accessor<string> {
+  return useStore(tcCore(key, ...args));
+}
+
+// Re-export core tc for advanced usage with useStore
+export { tc as tcAtom } from '@zachhandley/ez-i18n/runtime';
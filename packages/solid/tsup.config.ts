@@ -0,0 +1,16 @@
+import { defineConfig } from 'tsup';
+
+export default defineConfig({
+  entry: ['src/index.ts'],
+  format: ['esm'],
+  dts: true,
+  clean: true,
+  splitting: false,
+  external: [
+    'solid-js',
+    'nanostores',
+    '@nanostores/solid',
+    '@zachhandley/ez-i18n',
+    /^@zachhandley\/ez-i18n\//,
+  ],
+});
@@ -0,0 +1,138 @@
+import { derived, type Readable } from 'svelte/store';
+import type { ReadableAtom } from 'nanostores';
+// Import from package path (not relative) to ensure shared store instance
+import {
+  effectiveLocale,
+  translations,
+  localeLoading as localeLoadingAtom,
+  setLocale,
+  initLocale,
+  setTranslations,
+  loadNamespace,
+  getI18nContext,
+  resolveRenderContext,
+  translateWith,
+  tc as tcCore,
+  n as nCore,
+  d as dCore,
+  rt as rtCore,
+  list as listCore,
+  displayName as displayNameCore,
+} from '@zachhandley/ez-i18n/runtime';
+import type { TranslateFunction, TranslationKey, TranslateArgs } from '@zachhandley/ez-i18n';
+
+// Initialize stores from global data if available (handles separate Vite bundles)
+const initData = getI18nContext();
+if (initData) {
+  initLocale(initData.locale, initData.translations, initData.namespaces);
+  setTranslations(initData.translations);
+}
+
+// Sync with locale changes made through another copy of the runtime
+if (typeof document !== 'undefined') {
+  document.addEventListener('ez-i18n:locale-changed', (event) => {
+    const detail = (event as CustomEvent<{ locale?: string; translations?: Record<string, unknown> }>).detail;
+    if (detail?.locale && detail.locale !== effectiveLocale.get()) {
+      initLocale(detail.locale, detail.translations);
+    }
+  });
+}
+
+/**
+ * Expose a nanostores atom through the Svelte store contract
+ * (nanostores also pass the previous value, which Svelte doesn't expect)
+ */
+function toReadable<T>(store: ReadableAtom<T>): Readable<T> {
+  return {
+    subscribe: (run) => store.subscribe((value) => run(value)),
+  };
+}
+
+/**
+ * Current locale (reactive)
+ *
+ * @example
+ * <p>{$locale}</p>
+ */
+export const locale: Readable<string> = derived(
+  [toReadable(translations), toReadable(effectiveLocale)],
+  ([$translations, $locale]) => resolveRenderContext($translations, $locale).locale
+);
+
+/**
+ * Whether a locale change is in progress (reactive)
+ */
+export const localeLoading: Readable<boolean> = toReadable(localeLoadingAtom);
+
+/**
+ * Translation function store - re-derived when the locale or translations change
+ *
+ * @example
+ * <h1>{$t('common.welcome')}</h1>
+ * <p>{$t('greeting', { name: 'World' })}</p>
+ * <p>{$t('Hello [i18n:greeting|name=World]!')}</p>
+ */
+export const t: Readable<TranslateFunction> = derived(
+  [toReadable(translations), locale],
+  ([$translations, $locale]) => {
+    // Request context on the server, global context while the store is empty in the browser
+    const translate = (key: string, params?: Record<string, string | number>): string =>
+      translateWith(resolveRenderContext($translations, $locale), key, params, 'svelte');
+    return translate as TranslateFunction;
+  }
+);
+
+// Formatting helpers, re-derived when the locale changes
+// (Svelte always treats a function value as changed)
+export const n: Readable<typeof nCore> = derived(locale, () => nCore);
+export const d: Readable<typeof dCore> = derived(locale, () => dCore);
+export const rt: Readable<typeof rtCore> = derived(locale, () => rtCore);
+export const list: Readable<typeof listCore> = derived(locale, () => listCore);
+export const displayName: Readable<typeof displayNameCore> = derived(locale, () => displayNameCore);
+
+/**
+ * Store for a single reactive translation
+ *
+ * @example
+ * const title = translation('welcome.title');
+ * <h1>{$title}</h1>
+ */
+export function translation<K extends TranslationKey>(
+  key: K,
+  ...args: TranslateArgs<K>
+): Readable<string> {
+  return toReadable(tcCore(key, ...args));
+}
+
+/**
+ * Get all i18n stores and actions in one object
+ *
+ * @example
+ * <script>
+ *   import { useI18n } from '@zachhandley/ez-i18n-svelte';
+ *   const { t, n, locale, setLocale } = useI18n();
+ * </script>
+ *
+ * <h1>{$t('common.welcome')}</h1>
+ * <p>{$n(1234.5, 'currency')}</p>
+ * <button on:click={() => setLocale('es')}>Español</button>
+ */
+export function useI18n() {
+  return {
+    t,
+    n,
+    d,
+    rt,
+    list,
+    displayName,
+    locale,
+    localeLoading,
+    setLocale,
+    loadNamespace,
+  };
+}
+
+export { setLocale, loadNamespace };
+
+// Re-export core tc for advanced usage
+export { tc as tcAtom } from '@zachhandley/ez-i18n/runtime';
@@ -8,44 +8,57 @@ import {
   setLocale,
   initLocale,
   setTranslations,
-  getNestedValue,
-  interpolate,
+  getI18nContext,
+  resolveRenderContext,
+  translateWith,
   tc as tcCore,
+  n as nCore,
+  d as dCore,
+  rt as rtCore,
+  list as listCore,
+  displayName as displayNameCore,
 } from '@zachhandley/ez-i18n/runtime';
-import type { TranslateFunction } from '@zachhandley/ez-i18n';
+import type {
+  TranslateFunction,
+  TranslationKey,
+  TranslateArgs,
+  Formatters,
+} from '@zachhandley/ez-i18n';
 
 /**
  * Create a translation function bound to a translations object
  */
 function createTranslateFunction(
-  translationsRef: ComputedRef<Record<string, unknown>>
+  translationsRef: ComputedRef<Record<string, unknown>>,
+  localeRef: Readonly<Ref<string>>
 ): TranslateFunction {
-  return (key: string, params?: Record<string, string | number>): string => {
-    let trans = translationsRef.value;
-
-    // Fallback: if store is empty, check global context set by middleware/EzI18nHead
-    if (Object.keys(trans).length === 0) {
-      const ssrTrans = globalThis.__EZ_I18N__?.translations;
-      if (ssrTrans) {
-        trans = ssrTrans;
-      }
-    }
-
-    const value = getNestedValue(trans, key);
+  // Request context on the server, global context while the store is empty in the browser
+  return (key: string, params?: Record<string, string | number>): string =>
+    translateWith(resolveRenderContext(translationsRef.value, localeRef.value), key, params, 'vue');
+}
 
-    if (typeof value !== 'string') {
-      if (import.meta.env?.DEV) {
-        console.warn('[ez-i18n] Missing translation:', key);
-      }
-      return key;
-    }
+/**
+ * Create Intl formatting helpers that track the locale ref,
+ * so templates re-render when the locale changes
+ */
+function createFormatFunctions(localeRef: Readonly<Ref<string>>): Formatters {
+  const track = <A extends unknown[]>(format: (...args: A) => string) =>
+    (...args: A): string => {
+      void localeRef.value;
+      return format(...args);
+    };
 
-    return interpolate(value, params);
+  return {
+    n: track(nCore),
+    d: track(dCore),
+    rt: track(rtCore),
+    list: track(listCore),
+    displayName: track(displayNameCore),
   };
 }
 
 /**
- * Vue plugin that provides global $t(), $locale, and $setLocale
+ * Vue plugin that provides global $t(), $n(), $d(), $locale, and $setLocale
  *
  * @example
  * // In _vueEntrypoint.ts or main.ts
@@ -60,6 +73,7 @@ function createTranslateFunction(
  * <template>
  *   <h1>{{ $t('welcome.title') }}</h1>
  *   <p>{{ $t('welcome.message', { name: userName }) }}</p>
+ *   <p>{{ $n(price, 'currency') }} · {{ $d(createdAt, { dateStyle: 'medium' }) }}</p>
  *   <button @click="$setLocale('es')">Español</button>
  * </template>
  */
@@ -67,32 +81,36 @@ export const ezI18nVue: Plugin = {
   install(app: App) {
     // Check if stores need initialization from global data
     // This handles cases where Vue bundles separately from EzI18nHead
-    if (globalThis.__EZ_I18N__) {
-      initLocale(globalThis.__EZ_I18N__.locale, globalThis.__EZ_I18N__.translations);
-      setTranslations(globalThis.__EZ_I18N__.translations);
+    const initData = getI18nContext();
+    if (initData) {
+      initLocale(initData.locale, initData.translations, initData.namespaces);
+      setTranslations(initData.translations);
     }
 
-    // Get reactive store values
-    const locale = useStore(effectiveLocale);
+    // Get reactive store values (the locale comes from the request context during SSR)
+    const storeLocale = useStore(effectiveLocale);
     const trans = useStore(translations);
+    const locale = computed(() => resolveRenderContext(trans.value, storeLocale.value).locale);
 
     // Create reactive computed for translations
     const transComputed = computed(() => trans.value);
 
     // Create translate function
-    const t = createTranslateFunction(transComputed);
+    const t = createTranslateFunction(transComputed, locale);
 
     // Create tc (translation computed) function for global properties
-    const tc: TranslateComputedFunction = (
-      key: string,
-      params?: Record<string, string | number>
-    ) => {
-      return useStore(tcCore(key, params));
+    const tc: TranslateComputedFunction = (key, ...args) => {
+      return useStore(tcCore(key, ...args));
     };
 
+    // Create Intl formatting helpers
+    const formatters = createFormatFunctions(locale);
+
     // Add global properties
     app.config.globalProperties.$t = t;
     app.config.globalProperties.$tc = tc;
+    app.config.globalProperties.$n = formatters.n;
+    app.config.globalProperties.$d = formatters.d;
     app.config.globalProperties.$locale = locale;
     app.config.globalProperties.$setLocale = setLocale;
 
@@ -100,6 +118,7 @@ export const ezI18nVue: Plugin = {
     app.provide('ez-i18n', {
       t,
       tc,
+      ...formatters,
       locale,
       setLocale,
     });
@@ -110,9 +129,9 @@ export const ezI18nVue: Plugin = {
  * Type for the tc (translation computed) function
  * Returns a Vue Ref<string> that updates when translations change
  */
-export type TranslateComputedFunction = (
-  key: string,
-  params?: Record<string, string | number>
+export type TranslateComputedFunction = <K extends TranslationKey>(
+  key: K,
+  ...args: TranslateArgs<K>
 ) => Readonly<Ref<string>>;
 
 /**
@@ -122,10 +141,11 @@ export type TranslateComputedFunction = (
  * <script setup>
  * import { useI18n } from '@zachhandley/ez-i18n/vue';
  *
- * const { t, tc, locale, setLocale } = useI18n();
+ * const { t, tc, n, d, locale, setLocale } = useI18n();
  *
  * // Non-reactive (use in callbacks, computed bodies)
  * const greeting = t('welcome.greeting');
+ * const total = n(order.total, 'currency');
  *
  * // Reactive (updates when translations load or locale changes)
  * const title = tc('welcome.title');
@@ -139,10 +159,11 @@ export type TranslateComputedFunction = (
  * </template>
  */
 export function useI18n() {
-  const locale = useStore(effectiveLocale);
+  const storeLocale = useStore(effectiveLocale);
   const trans = useStore(translations);
+  const locale = computed(() => resolveRenderContext(trans.value, storeLocale.value).locale);
   const transComputed = computed(() => trans.value);
-  const t = createTranslateFunction(transComputed);
+  const t = createTranslateFunction(transComputed, locale);
 
   /**
    * Translation computed - returns a reactive Vue Ref<string>
@@ -151,16 +172,14 @@ export function useI18n() {
    * - When locale changes should trigger re-renders
    * - To avoid hydration mismatches in SSR
    */
-  const tc: TranslateComputedFunction = (
-    key: string,
-    params?: Record<string, string | number>
-  ) => {
-    return useStore(tcCore(key, params));
+  const tc: TranslateComputedFunction = (key, ...args) => {
+    return useStore(tcCore(key, ...args));
   };
 
   return {
     t,
     tc,
+    ...createFormatFunctions(locale),
     locale,
     setLocale,
   };
@@ -173,6 +192,10 @@ declare module 'vue' {
     $t: TranslateFunction;
     /** Translate a key and return a reactive Ref<string> */
     $tc: TranslateComputedFunction;
+    /** Format a number for the current locale */
+    $n: Formatters['n'];
+    /** Format a date for the current locale */
+    $d: Formatters['d'];
     /** Current locale (reactive ref from nanostore) */
     $locale: Readonly<import('vue').Ref<string>>;
     $setLocale: typeof setLocale;